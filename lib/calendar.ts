@@ -0,0 +1,45 @@
+import { abs, add, type Fraction, fromNumber, multiply, roundFraction, subtract } from './decimal';
+
+// Calendar arithmetic for month and year components, in UTC so results do not depend on the host time zone
+
+function daysInMonth( year: number, month: number ): number {
+    const date = new Date( 0 );
+    date.setUTCFullYear( year, month + 1, 0 );
+    return date.getUTCDate();
+}
+
+/**
+ * Moves a timestamp by whole calendar months, keeping the time of day.
+ * When the target month is shorter the day is clamped to its last day, so Jan 31 + 1 month is Feb 28 (or 29).
+ */
+export function addCalendarMonths( timestamp: number, months: number ): number {
+    const date = new Date( timestamp );
+    const total = date.getUTCFullYear() * 12 + date.getUTCMonth() + months;
+    const year = Math.floor( total / 12 );
+    const month = total - year * 12;
+
+    date.setUTCFullYear( year, month, Math.min( date.getUTCDate(), daysInMonth( year, month ) ) );
+    return date.getTime();
+}
+
+/**
+ * Returns the exact number of milliseconds spanned by a number of calendar months from the anchor.
+ * A fractional remainder is that share of the calendar month that follows the whole months
+ * (or precedes them, for negative values), so "1.5mo" from Jan 31 is Feb 28 plus half of the 31 days to Mar 31.
+ * Returns null when the months lead outside the range of dates.
+ */
+export function calendarMonthsToMilliseconds( anchor: number, months: Fraction ): Fraction | null {
+    const whole = Number( roundFraction( months, 'trunc' ) );
+    const landed = addCalendarMonths( anchor, whole );
+    if ( !isFinite( landed ) ) return null;
+    let total = fromNumber( landed - anchor );
+
+    const rest = subtract( months, fromNumber( whole ) );
+    if ( rest.numerator !== BigInt( 0 ) ) {
+        const next = addCalendarMonths( anchor, rest.numerator > BigInt( 0 ) ? whole + 1 : whole - 1 );
+        if ( !isFinite( next ) ) return null;
+        total = add( total, multiply( abs( rest ), fromNumber( next - landed ) ) );
+    }
+
+    return total;
+}
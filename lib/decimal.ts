@@ -0,0 +1,166 @@
+// Exact rational arithmetic used for unit conversions, so "1.1h" is 3960000ms and not 3960000.0000000005
+
+export interface Fraction {
+    numerator: bigint;
+    // Always positive
+    denominator: bigint;
+}
+
+export type RoundingMode = 'round' | 'floor' | 'ceil' | 'trunc';
+
+const ZERO = BigInt( 0 );
+const ONE = BigInt( 1 );
+const TWO = BigInt( 2 );
+const TEN = BigInt( 10 );
+
+const DECIMAL_PATTERN = /^([-+])?(\d*)(?:[.,](\d*))?(?:e([-+]?\d+))?$/i;
+
+function pow10( exponent: number ): bigint {
+    let result = ONE;
+    for ( let i = 0; i < exponent; i++ ) {
+        result *= TEN;
+    }
+    return result;
+}
+
+function gcd( a: bigint, b: bigint ): bigint {
+    let x = a < ZERO ? -a : a;
+    let y = b;
+    while ( y !== ZERO ) {
+        const rest = x % y;
+        x = y;
+        y = rest;
+    }
+    return x;
+}
+
+function reduce( numerator: bigint, denominator: bigint ): Fraction {
+    if ( denominator < ZERO ) {
+        numerator = -numerator;
+        denominator = -denominator;
+    }
+
+    const divisor = gcd( numerator, denominator );
+    return divisor > ONE
+        ? { numerator: numerator / divisor, denominator: denominator / divisor }
+        : { numerator, denominator };
+}
+
+/**
+ * Parses a decimal string ("1.5", "-.25", "0,5", "1e-7") into an exact fraction.
+ * Returns null when the text is not a decimal number.
+ */
+export function parseDecimal( text: string ): Fraction | null {
+    const match = DECIMAL_PATTERN.exec( text.trim() );
+    if ( !match ) return null;
+
+    const [ , sign, whole = '', fraction = '', exponent = '0' ] = match;
+    if ( !whole && !fraction ) return null;
+
+    let numerator = BigInt( whole + fraction );
+    let denominator = pow10( fraction.length );
+    const shift = parseInt( exponent, 10 );
+    if ( shift > 0 ) {
+        numerator *= pow10( shift );
+    } else {
+        denominator *= pow10( -shift );
+    }
+
+    return reduce( sign === '-' ? -numerator : numerator, denominator );
+}
+
+// Converts a finite number into the exact fraction of its shortest decimal representation
+export function fromNumber( value: number ): Fraction {
+    const fraction = isFinite( value ) ? parseDecimal( value.toString() ) : null;
+    if ( !fraction ) {
+        throw new Error( `Cannot convert ${ value } to an exact fraction` );
+    }
+    return fraction;
+}
+
+export function add( a: Fraction, b: Fraction ): Fraction {
+    return reduce( a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator );
+}
+
+export function multiply( a: Fraction, b: Fraction ): Fraction {
+    return reduce( a.numerator * b.numerator, a.denominator * b.denominator );
+}
+
+export function divide( a: Fraction, b: Fraction ): Fraction {
+    if ( b.numerator === ZERO ) {
+        throw new Error( 'Cannot divide by zero' );
+    }
+    return reduce( a.numerator * b.denominator, a.denominator * b.numerator );
+}
+
+export function isInteger( value: Fraction ): boolean {
+    return value.numerator % value.denominator === ZERO;
+}
+
+/**
+ * Rounds a fraction to an integer. "round" matches Math.round and rounds halves towards positive infinity.
+ */
+export function roundFraction( value: Fraction, mode: RoundingMode ): bigint {
+    const { numerator, denominator } = value;
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+
+    switch ( mode ) {
+        case 'trunc':
+            return quotient;
+        case 'floor':
+            return remainder < ZERO ? quotient - ONE : quotient;
+        case 'ceil':
+            return remainder > ZERO ? quotient + ONE : quotient;
+        case 'round':
+            return roundFraction( { numerator: TWO * numerator + denominator, denominator: TWO * denominator }, 'floor' );
+    }
+}
+
+// Converts a fraction to the nearest number, keeping the integer part exact where possible
+export function toNumber( value: Fraction ): number {
+    const quotient = value.numerator / value.denominator;
+    const remainder = value.numerator % value.denominator;
+    return Number( quotient ) + Number( remainder ) / Number( value.denominator );
+}
+
+export function subtract( a: Fraction, b: Fraction ): Fraction {
+    return add( a, { numerator: -b.numerator, denominator: b.denominator } );
+}
+
+export function abs( value: Fraction ): Fraction {
+    return value.numerator < ZERO ? { numerator: -value.numerator, denominator: value.denominator } : value;
+}
+
+// Returns a negative number, zero or a positive number when a is less than, equal to or greater than b
+export function compare( a: Fraction, b: Fraction ): number {
+    const difference = a.numerator * b.denominator - b.numerator * a.denominator;
+    return difference < ZERO ? -1 : difference > ZERO ? 1 : 0;
+}
+
+// Whether the fraction can be written with at most `precision` decimal places
+export function hasPrecision( value: Fraction, precision: number ): boolean {
+    return isInteger( { numerator: value.numerator * pow10( precision ), denominator: value.denominator } );
+}
+
+/**
+ * Writes a fraction as a decimal string with at most `precision` places, rounding halves away from zero
+ * and dropping trailing zeros ("1.50" becomes "1.5").
+ */
+export function toDecimalString( value: Fraction, precision: number ): string {
+    const negative = value.numerator < ZERO;
+    const scaled = roundFraction( {
+        numerator: ( negative ? -value.numerator : value.numerator ) * pow10( precision ),
+        denominator: value.denominator,
+    }, 'round' );
+
+    let digits = scaled.toString();
+    while ( digits.length <= precision ) {
+        digits = `0${ digits }`;
+    }
+
+    const whole = digits.slice( 0, digits.length - precision );
+    const fraction = digits.slice( digits.length - precision ).replace( /0+$/, '' );
+    const sign = negative && scaled !== ZERO ? '-' : '';
+    return fraction ? `${ sign }${ whole }.${ fraction }` : `${ sign }${ whole }`;
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+// A variable's schema, or its schema with a time string used when the variable is unset or empty
+export type TimeStringEnvEntry = z.ZodType | { schema: z.ZodType; default?: string };
+
+// Variable names mapped to how they are read
+export type TimeStringEnvSpec = Record<string, TimeStringEnvEntry>;
+
+// Parsed values by variable name, typed by each schema's output
+export type TimeStringEnvValues<S extends TimeStringEnvSpec> = {
+    [K in keyof S]: S[K] extends { schema: infer T extends z.ZodType } ? z.output<T> : S[K] extends z.ZodType ? z.output<S[K]> : never;
+};
+
+// A variable that could not be read
+export interface TimeStringEnvFailure {
+    name: string;
+    // The value as set, the default when the variable is unset, or undefined when there is neither
+    value: string | undefined;
+    // Whether the value is the declared default
+    isDefault: boolean;
+    issues: z.core.$ZodIssue[];
+}
+
+function describeFailure( failure: TimeStringEnvFailure ): string {
+    const { name, value, isDefault, issues } = failure;
+    if ( value === undefined ) {
+        return `${ name } is not set`;
+    }
+    const messages = issues.map( ( issue ) => issue.message ).join( '; ' );
+    return `${ name }${ isDefault ? ' default' : '' }=${ JSON.stringify( value ) }: ${ messages }`;
+}
+
+// Thrown by loadTimeStringEnv with every variable that could not be read
+export class TimeStringEnvError extends Error {
+    readonly failures: TimeStringEnvFailure[];
+
+    constructor( failures: TimeStringEnvFailure[] ) {
+        super( `Invalid time settings:\n${ failures.map( ( failure ) => `  ${ describeFailure( failure ) }` ).join( '\n' ) }` );
+        this.name = 'TimeStringEnvError';
+        this.failures = failures;
+    }
+}
+
+/**
+ * Reads duration settings from an environment object such as process.env. An unset or empty variable
+ * falls back to its default. Every default is parsed with the variable's schema, even where the variable is set,
+ * so that a bad default surfaces in every environment. Throws a TimeStringEnvError that lists every failing
+ * variable and default, so that all mistakes in a configuration surface at once.
+ */
+export function loadTimeStringEnv<S extends TimeStringEnvSpec>(
+    spec: S,
+    env: Record<string, string | undefined>
+): TimeStringEnvValues<S> {
+    const values: Record<string, unknown> = {};
+    const failures: TimeStringEnvFailure[] = [];
+
+    for ( const name of Object.keys( spec ) ) {
+        const entry = spec[ name ] as TimeStringEnvEntry;
+        const { schema, default: defaultValue } = entry instanceof z.ZodType ? { schema: entry, default: undefined } : entry;
+        const defaultResult = defaultValue === undefined ? undefined : schema.safeParse( defaultValue );
+        if ( defaultResult && !defaultResult.success ) {
+            failures.push( { name, value: defaultValue, isDefault: true, issues: defaultResult.error.issues } );
+        }
+
+        const raw = env[ name ];
+        if ( raw === undefined || raw === '' ) {
+            if ( !defaultResult ) {
+                failures.push( { name, value: undefined, isDefault: true, issues: [] } );
+            } else if ( defaultResult.success ) {
+                values[ name ] = defaultResult.data;
+            }
+            continue;
+        }
+
+        const result = schema.safeParse( raw );
+        if ( result.success ) {
+            values[ name ] = result.data;
+        } else {
+            failures.push( { name, value: raw, isDefault: false, issues: result.error.issues } );
+        }
+    }
+
+    if ( failures.length > 0 ) {
+        throw new TimeStringEnvError( failures );
+    }
+    return values as TimeStringEnvValues<S>;
+}
@@ -0,0 +1,216 @@
+import { abs, compare, divide, type Fraction, fromNumber, hasPrecision, multiply, parseDecimal, roundFraction, subtract, toDecimalString } from './decimal';
+import {
+    applyMonthYearConvention,
+    DEFAULT_TIME_UNITS,
+    type MonthYearConventionOption,
+    resolveMonthYearConvention,
+    TIME_UNIT_NAMES,
+    TimeUnit,
+    type TimeUnitDefinition,
+} from './units';
+
+// Options for turning milliseconds back into a time string
+export interface FormatTimeStringOptions {
+    // 'short' writes "1h 30m", 'long' writes "1 hour 30 minutes"
+    style?: 'short' | 'long';
+    // 'compound' spreads the value over several units, 'largest' writes a single unit ("1.5h")
+    format?: 'compound' | 'largest';
+    // Maximum number of segments in compound output; the last segment carries the remainder as a decimal
+    maxSegments?: number;
+    // Maximum number of decimal places in a segment value
+    precision?: number;
+    // Units that may appear in the output (defaults to days down to milliseconds)
+    units?: readonly TimeUnit[];
+    // 'sign' keeps a leading minus sign for negative values, 'absolute' drops it
+    negative?: 'sign' | 'absolute';
+    // Month and year lengths to write "mo" and "y" with (defaults to 30 and 365 days)
+    convention?: MonthYearConventionOption;
+}
+
+const DEFAULT_FORMAT_UNITS: readonly TimeUnit[] = [
+    TimeUnit.DAY,
+    TimeUnit.HOUR,
+    TimeUnit.MINUTE,
+    TimeUnit.SECOND,
+    TimeUnit.MILLISECOND,
+];
+
+const ZERO: Fraction = { numerator: BigInt( 0 ), denominator: BigInt( 1 ) };
+
+interface DurationSegment {
+    // Unsigned decimal string
+    value: string;
+    unit: TimeUnit;
+}
+
+function writeSegment( segment: DurationSegment, style: 'short' | 'long' ): string {
+    const { value, unit } = segment;
+    if ( style === 'short' ) {
+        return `${ value }${ unit }`;
+    }
+
+    const [ singular, plural ] = TIME_UNIT_NAMES[ unit ];
+    return `${ value } ${ value === '1' ? singular : plural }`;
+}
+
+// Splits a duration into unsigned segments, largest unit first, and reports whether it should be signed
+function splitDuration(
+    ms: number,
+    options: FormatTimeStringOptions,
+    defaultUnits: readonly TimeUnit[]
+): { negative: boolean; segments: DurationSegment[] } {
+    const {
+        format = 'compound',
+        maxSegments = Infinity,
+        precision = 2,
+        units = defaultUnits,
+        convention,
+    } = options;
+
+    if ( !isFinite( ms ) ) {
+        throw new Error( `Cannot format a non-finite duration: ${ ms }` );
+    }
+    if ( units.length === 0 ) {
+        throw new Error( 'At least one unit is required to format a duration' );
+    }
+    if ( !( maxSegments >= 1 ) ) {
+        throw new Error( 'maxSegments must be at least 1' );
+    }
+    if ( !( precision >= 0 ) || precision % 1 !== 0 ) {
+        throw new Error( 'precision must be a non-negative integer' );
+    }
+
+    // Largest units first, each with its exact length
+    const table = convention ? applyMonthYearConvention( DEFAULT_TIME_UNITS, resolveMonthYearConvention( convention ) ) : DEFAULT_TIME_UNITS;
+    const sorted = units
+        .map( ( unit ) => ( { unit, ms: fromNumber( ( table[ unit ] as TimeUnitDefinition ).ms ) } ) )
+        .sort( ( a, b ) => compare( b.ms, a.ms ) );
+    const smallest = sorted[ sorted.length - 1 ] as ( typeof sorted )[number];
+
+    const exact = fromNumber( ms );
+    let rest = compare( exact, ZERO ) < 0 ? subtract( ZERO, exact ) : exact;
+    const segments: DurationSegment[] = [];
+
+    if ( format === 'largest' ) {
+        // Use the largest unit that represents the value exactly within the precision, else the smallest unit
+        const candidates = sorted.filter( ( candidate ) => compare( rest, candidate.ms ) >= 0 );
+        const exactMatch = candidates.filter( ( candidate ) => hasPrecision( divide( rest, candidate.ms ), precision ) )[ 0 ];
+        const chosen = exactMatch || smallest;
+        segments.push( { value: toDecimalString( divide( rest, chosen.ms ), precision ), unit: chosen.unit } );
+    } else {
+        for ( let i = 0; i < sorted.length && compare( rest, ZERO ) > 0; i++ ) {
+            const current = sorted[ i ] as ( typeof sorted )[number];
+            if ( compare( rest, current.ms ) < 0 && current !== smallest ) {
+                continue;
+            }
+
+            // The last allowed segment, or the smallest unit, carries whatever remains
+            if ( segments.length === maxSegments - 1 || current === smallest ) {
+                const value = toDecimalString( divide( rest, current.ms ), precision );
+                if ( value !== '0' || segments.length === 0 ) {
+                    segments.push( { value, unit: current.unit } );
+                }
+                break;
+            }
+
+            const count = roundFraction( divide( rest, current.ms ), 'floor' );
+            rest = subtract( rest, multiply( { numerator: count, denominator: BigInt( 1 ) }, current.ms ) );
+            segments.push( { value: count.toString(), unit: current.unit } );
+        }
+
+        if ( segments.length === 0 ) {
+            segments.push( { value: '0', unit: smallest.unit } );
+        }
+    }
+
+    // A value that rounds to zero is written without a sign
+    const isZero = segments.length === 1 && ( segments[ 0 ] as DurationSegment ).value === '0';
+    return { negative: compare( exact, ZERO ) < 0 && !isZero, segments };
+}
+
+/**
+ * Formats a duration in milliseconds as a time string that zodTimeString parses back to the same value.
+ * The output is only lossy when maxSegments or precision leave no room for an exact representation.
+ */
+export function formatTimeString( ms: number, options: FormatTimeStringOptions = {} ): string {
+    const { style = 'short', negative = 'sign' } = options;
+    const duration = splitDuration( ms, options, DEFAULT_FORMAT_UNITS );
+
+    const sign = negative === 'sign' && duration.negative ? '-' : '';
+    return `${ sign }${ duration.segments.map( ( segment ) => writeSegment( segment, style ) ).join( ' ' ) }`;
+}
+
+const ISO_DESIGNATORS: Record<TimeUnit, { designator: string; time: boolean } | undefined> = {
+    [ TimeUnit.MILLISECOND ]: undefined,
+    [ TimeUnit.SECOND ]: { designator: 'S', time: true },
+    [ TimeUnit.MINUTE ]: { designator: 'M', time: true },
+    [ TimeUnit.HOUR ]: { designator: 'H', time: true },
+    [ TimeUnit.DAY ]: { designator: 'D', time: false },
+    [ TimeUnit.WEEK ]: { designator: 'W', time: false },
+    [ TimeUnit.MONTH ]: { designator: 'M', time: false },
+    [ TimeUnit.YEAR ]: { designator: 'Y', time: false },
+};
+
+const DEFAULT_ISO_UNITS: readonly TimeUnit[] = [
+    TimeUnit.DAY,
+    TimeUnit.HOUR,
+    TimeUnit.MINUTE,
+    TimeUnit.SECOND,
+];
+
+/**
+ * Formats a duration in milliseconds as an ISO 8601 duration ("PT1H30M") that zodIsoDuration parses back.
+ * ISO 8601 has no millisecond designator, so milliseconds are written as fractional seconds.
+ * The style option does not apply.
+ */
+export function formatIsoDuration( ms: number, options: FormatTimeStringOptions = {} ): string {
+    const { negative = 'sign', units = DEFAULT_ISO_UNITS } = options;
+    if ( units.some( ( unit ) => !ISO_DESIGNATORS[ unit ] ) ) {
+        throw new Error( 'ISO 8601 durations cannot be written in milliseconds' );
+    }
+
+    const duration = splitDuration( ms, { precision: 3, ...options }, DEFAULT_ISO_UNITS );
+    let date = '';
+    let time = '';
+    for ( const segment of duration.segments ) {
+        const { designator, time: inTime } = ISO_DESIGNATORS[ segment.unit ] as { designator: string; time: boolean };
+        if ( inTime ) {
+            time += `${ segment.value }${ designator }`;
+        } else {
+            date += `${ segment.value }${ designator }`;
+        }
+    }
+
+    const sign = negative === 'sign' && duration.negative ? '-' : '';
+    return `${ sign }P${ date }${ time ? `T${ time }` : '' }`;
+}
+
+function padClockField( value: bigint ): string {
+    const text = value.toString();
+    return text.length < 2 ? `0${ text }` : text;
+}
+
+/**
+ * Formats a duration in milliseconds as a clock duration ("1:30:00", "0:00:01.5") that zodClockDuration parses back.
+ * Hours are not carried into days, and seconds keep up to precision decimal places (3 by default).
+ * Only the precision and negative options apply.
+ */
+export function formatClockDuration( ms: number, options: FormatTimeStringOptions = {} ): string {
+    const { negative = 'sign', precision = 3 } = options;
+    if ( !isFinite( ms ) ) {
+        throw new Error( `Cannot format a non-finite duration: ${ ms }` );
+    }
+    if ( !( precision >= 0 ) || precision % 1 !== 0 ) {
+        throw new Error( 'precision must be a non-negative integer' );
+    }
+
+    // Round the seconds first so that a value such as 59.9996s carries into the next minute
+    const seconds = parseDecimal( toDecimalString( abs( divide( fromNumber( ms ), fromNumber( 1000 ) ) ), precision ) ) as Fraction;
+    const whole = roundFraction( seconds, 'floor' );
+    const fraction = toDecimalString( subtract( seconds, { numerator: whole, denominator: BigInt( 1 ) } ), precision ).slice( 1 );
+
+    const sixty = BigInt( 60 );
+    const clock = `${ whole / ( sixty * sixty ) }:${ padClockField( whole / sixty % sixty ) }:${ padClockField( whole % sixty ) }${ fraction }`;
+    const sign = negative === 'sign' && ms < 0 && seconds.numerator !== BigInt( 0 ) ? '-' : '';
+    return `${ sign }${ clock }`;
+}
@@ -1,290 +1,2331 @@
 import { z } from 'zod';
+import { calendarMonthsToMilliseconds } from './calendar';
+import { findClosestAlias } from './suggestions';
+import { createTimeStringIssue, type TimeStringIssue, TimeStringIssueCode, type TimeStringIssueParams } from './issues';
+import { resolveTimeStringLocales, type TimeStringLocaleMessages, type TimeStringLocaleOption } from './locales';
+import { add, compare, divide, type Fraction, fromNumber, isInteger, multiply, parseDecimal, roundFraction, toNumber } from './decimal';
+import { formatClockDuration, formatIsoDuration, formatTimeString, type FormatTimeStringOptions } from './format';
+import {
+    type ActiveMonthYearConvention,
+    applyMonthYearConvention,
+    DAY_MS,
+    DEFAULT_TIME_UNITS,
+    MONTH_YEAR_CONVENTIONS,
+    type MonthYearConventionOption,
+    resolveMonthYearConvention,
+    TIME_UNIT_NAMES,
+    TimeUnit,
+    type TimeUnitDefinition,
+    type TimeUnitTable,
+} from './units';
+
+export {
+    type ActiveMonthYearConvention,
+    DEFAULT_TIME_UNITS,
+    MONTH_YEAR_CONVENTIONS,
+    type MonthYearConvention,
+    type MonthYearConventionName,
+    type MonthYearConventionOption,
+    TimeUnit,
+    type TimeUnitDefinition,
+    type TimeUnitTable,
+} from './units';
+export { formatTimeString, type FormatTimeStringOptions } from './format';
+export {
+    loadTimeStringEnv,
+    TimeStringEnvError,
+    type TimeStringEnvEntry,
+    type TimeStringEnvFailure,
+    type TimeStringEnvSpec,
+    type TimeStringEnvValues,
+} from './env';
+export { type TimeStringIssue, TimeStringIssueCode, type TimeStringIssueParams } from './issues';
+export {
+    TIME_STRING_LOCALES,
+    type TimeStringLocale,
+    type TimeStringLocaleMessages,
+    type TimeStringLocaleName,
+    type TimeStringLocaleOption,
+    type TimeStringMessageContext,
+} from './locales';
 
 // Base interface for all error message parameters
 export interface TimeStringErrorParams {
     message: string | ( ( invalid: string ) => string );
 }
 
-// Common type for error parameters
-export type ErrorParamType = string | TimeStringErrorParams | ( ( invalid: string ) => string ) | undefined;
+// Common type for error parameters
+export type ErrorParamType = string | TimeStringErrorParams | ( ( invalid: string ) => string ) | undefined;
+
+// Unit error messages also receive the closest known alias, when there is one
+export type UnitErrorParamType =
+    | string
+    | { message: string | ( ( invalid: string, suggestion: string | undefined ) => string ) }
+    | ( ( invalid: string, suggestion: string | undefined ) => string )
+    | undefined;
+
+// Options for the time string schema
+export interface TimeStringOptions {
+    invalidFormatError?: ErrorParamType;
+    invalidValueError?: ErrorParamType;
+    invalidUnitError?: UnitErrorParamType;
+    // For a bare number in strict mode; functions receive the number as written
+    missingUnitError?: ErrorParamType;
+    // For a unit outside the allowed set; functions receive the unit's canonical name
+    unitNotAllowedError?: ErrorParamType;
+    // For a range whose start is greater than its end; functions receive the range as written
+    invalidRangeError?: ErrorParamType;
+}
+
+// Unit table compiled into the lookup structures used while parsing
+interface CompiledTimeUnits {
+    table: TimeUnitTable;
+    aliases: Map<string, string>;
+    // Every alias, for suggestions when a unit is misspelled
+    aliasList: string[];
+    segmentPattern: RegExp;
+    separatorPattern: RegExp;
+}
+
+// Locale settings that change how values and separators are read
+interface TimeStringGrammarOptions {
+    // Also read "1,5" as a decimal
+    decimalComma?: boolean;
+    // Words that may join segments besides "and"
+    conjunctions?: readonly string[];
+}
+
+// The text reported for an unreadable segment; it stops at the next sign or decimal point, so "1m-1m-1m"
+// reports "-1m" and a failed parse does not read the rest of a long input
+const SEGMENT_TEXT_PATTERN = /[^\s,][^\s,.-]*/y;
+
+function escapeRegExp( value: string ): string {
+    return value.replace( /[.*+?^${}()|[\]\\]/g, '\\$&' );
+}
+
+// Regular expression source that matches the text in any case, e.g. "[mM][sS]" for "ms", as JSON Schema patterns take no flags
+function caseInsensitiveSource( text: string ): string {
+    return text.split( '' ).map( ( char ) => {
+        const lower = char.toLowerCase();
+        const upper = char.toUpperCase();
+        return lower === upper || lower.length !== 1 || upper.length !== 1 ? escapeRegExp( char ) : `[${ lower }${ upper }]`;
+    } ).join( '' );
+}
+
+/**
+ * Validates a unit table and pre-compiles its alias lookup and segment pattern.
+ * Throws when a unit has no aliases or a non-positive length, or when two units share an alias.
+ */
+function compileTimeUnits( table: TimeUnitTable, grammar: TimeStringGrammarOptions = {} ): CompiledTimeUnits {
+    const aliases = new Map<string, string>();
+
+    for ( const unit of Object.keys( table ) ) {
+        const definition = table[ unit ] as TimeUnitDefinition;
+        if ( !( definition.ms > 0 ) || !isFinite( definition.ms ) ) {
+            throw new Error( `Time unit "${ unit }" must have a positive, finite length in milliseconds` );
+        }
+        if ( definition.aliases.length === 0 ) {
+            throw new Error( `Time unit "${ unit }" must have at least one alias` );
+        }
+
+        for ( const alias of definition.aliases ) {
+            const key = alias.toLowerCase();
+            const existing = aliases.get( key );
+            if ( existing !== undefined && existing !== unit ) {
+                throw new Error( `Time unit alias "${ alias }" is defined by both "${ existing }" and "${ unit }"` );
+            }
+            aliases.set( key, unit );
+        }
+    }
+
+    // Longest aliases first so "mo" wins over "m"; anything else made of letters is captured as an unknown unit
+    const alternatives: string[] = [];
+    aliases.forEach( ( _, alias ) => alternatives.push( alias ) );
+    alternatives.sort( ( a, b ) => b.length - a.length );
+    const segmentPattern = new RegExp(
+        `(\\d*${ grammar.decimalComma ? '[.,]' : '\\.' }?\\d+)\\s*(?:(${ alternatives.map( escapeRegExp ).join( '|' ) })(?![a-zA-Z])|([a-zA-Z]*))`,
+        'iy'
+    );
+    const conjunctions = [ 'and' ].concat( grammar.conjunctions || [] ).map( escapeRegExp ).join( '|' );
+    const separatorPattern = new RegExp( `(?:\\s*,)?(?:\\s*(?:${ conjunctions })(?![a-zA-Z]))?\\s*`, 'iy' );
+
+    return { table, aliases, aliasList: alternatives, segmentPattern, separatorPattern };
+}
+
+function getTimeUnit( units: CompiledTimeUnits, unitStr: string ): string | null {
+    const unit = units.aliases.get( unitStr.toLowerCase() );
+    return unit === undefined ? null : unit;
+}
+
+// A signed value/unit pair read from the input, with the value kept as written so conversions stay exact
+interface TimeStringSegment {
+    value: string;
+    unit: string;
+    // The segment as written and where it starts in the input
+    text: string;
+    offset: number;
+    // Set for a bare number, whose unit comes from the schema's unitless policy
+    unitless?: boolean;
+}
+
+// Outcome of parsing a (possibly compound) time string
+type TimeStringParseResult =
+    | { success: true; segments: TimeStringSegment[] }
+    | { success: false; kind: 'format' | 'value' | 'unit'; segment: string; offset: number; unit?: string; suggestion?: string };
+
+// A grammar that splits a trimmed input string into segments
+type TimeStringParser = ( input: string ) => TimeStringParseResult;
+
+function negateValue( value: string ): string {
+    return value.startsWith( '-' ) ? value.slice( 1 ) : `-${ value }`;
+}
+
+/**
+ * Sums parsed segments into an exact number of milliseconds using the given unit table.
+ * With an anchor, month and year segments are applied as calendar months from that timestamp instead,
+ * and null is returned when they lead outside the range of dates.
+ */
+function toExactMilliseconds( segments: TimeStringSegment[], units: TimeUnitTable ): Fraction;
+function toExactMilliseconds( segments: TimeStringSegment[], units: TimeUnitTable, anchor: number | undefined ): Fraction | null;
+function toExactMilliseconds( segments: TimeStringSegment[], units: TimeUnitTable, anchor?: number ): Fraction | null {
+    let total: Fraction = { numerator: BigInt( 0 ), denominator: BigInt( 1 ) };
+    let months: Fraction = total;
+    for ( const { value, unit } of segments ) {
+        const amount = parseDecimal( value ) as Fraction;
+        if ( anchor !== undefined && ( unit === TimeUnit.MONTH || unit === TimeUnit.YEAR ) ) {
+            months = add( months, unit === TimeUnit.YEAR ? multiply( amount, fromNumber( 12 ) ) : amount );
+            continue;
+        }
+
+        const factor = fromNumber( ( units[ unit ] as TimeUnitDefinition ).ms );
+        total = add( total, multiply( amount, factor ) );
+    }
+    if ( anchor === undefined || months.numerator === BigInt( 0 ) ) return total;
+
+    const calendar = calendarMonthsToMilliseconds( anchor, months );
+    return calendar && add( total, calendar );
+}
+
+function readSegmentText( input: string, position: number ): string {
+    SEGMENT_TEXT_PATTERN.lastIndex = position;
+    const match = SEGMENT_TEXT_PATTERN.exec( input );
+    return match ? match[ 0 ] : input.slice( position ).trim();
+}
+
+/**
+ * Creates a parser for time strings made of one or more value/unit segments.
+ * A leading minus sign negates the whole duration, and a bare number is only accepted on its own.
+ */
+function createTimeStringParser( units: CompiledTimeUnits ): TimeStringParser {
+    return ( input ) => {
+        const { segmentPattern, separatorPattern } = units;
+        const negative = input.startsWith( '-' );
+        let position = negative ? 1 : 0;
+        const segments: TimeStringSegment[] = [];
+
+        while ( position < input.length ) {
+            const start = segments.length === 0 ? 0 : position;
+
+            segmentPattern.lastIndex = position;
+            const match = segmentPattern.exec( input );
+            if ( !match ) {
+                return segments.length === 0
+                    ? { success: false, kind: 'format', segment: input, offset: 0 }
+                    : { success: false, kind: 'format', segment: readSegmentText( input, position ), offset: position };
+            }
+
+            const [ segmentMatch, valueStr = '', knownUnitStr, unknownUnitStr ] = match;
+            const unitStr = knownUnitStr || unknownUnitStr || '';
+            position += segmentMatch.length;
+            const segment = input.slice( start, position );
+
+            separatorPattern.lastIndex = position;
+            const separator = separatorPattern.exec( input );
+            const separatorLength = separator ? separator[ 0 ].length : 0;
+            const isLast = position + separatorLength >= input.length;
+
+            const decimal = valueStr.replace( ',', '.' );
+            if ( !isFinite( parseFloat( decimal ) ) ) {
+                return { success: false, kind: 'value', segment, offset: start };
+            }
+
+            const value = negative ? negateValue( decimal ) : decimal;
+            if ( !unitStr ) {
+                // a number without a unit is treated as milliseconds, but only when it stands alone
+                if ( segments.length > 0 || !isLast ) {
+                    return { success: false, kind: 'format', segment, offset: start };
+                }
+                segments.push( { value, unit: TimeUnit.MILLISECOND, text: segment, offset: start, unitless: true } );
+            } else {
+                const unit = getTimeUnit( units, unitStr );
+                if ( !unit ) {
+                    const suggestion = findClosestAlias( unitStr, units.aliasList );
+                    return {
+                        success: false,
+                        kind: 'unit',
+                        segment,
+                        offset: position - unitStr.length,
+                        unit: unitStr,
+                        ...( suggestion ? { suggestion } : {} ),
+                    };
+                }
+                segments.push( { value, unit, text: segment, offset: start } );
+            }
+
+            // a trailing separator ("1h and") leaves the expression incomplete
+            if ( isLast && separatorLength > 0 && separator?.[ 0 ].trim() ) {
+                return { success: false, kind: 'format', segment: separator[ 0 ].trim(), offset: position + separator[ 0 ].search( /\S/ ) };
+            }
+
+            position += separatorLength;
+        }
+
+        if ( segments.length === 0 ) {
+            return { success: false, kind: 'format', segment: input, offset: 0 };
+        }
+
+        return { success: true, segments };
+    };
+}
+
+// How a grammar appears in JSON Schema, narrowed to the schema state it is read with
+interface TimeStringGrammarDescription {
+    // Unanchored regular expression source for the accepted text, without surrounding whitespace
+    pattern: ( config: TimeStringConfig ) => string;
+    description: ( config: TimeStringConfig ) => string;
+    // Candidate examples; only those the schema accepts are listed
+    examples: ( config: TimeStringConfig ) => readonly string[];
+}
+
+// Plural English name of a unit, or its canonical name for a custom unit
+function describeUnit( unit: string ): string {
+    const names = ( TIME_UNIT_NAMES as Record<string, [ string, string ] | undefined> )[ unit ];
+    return names ? names[ 1 ] : unit;
+}
+
+/**
+ * Describes the time string grammar for JSON Schema. The pattern mirrors the parser, but only admits
+ * the aliases of the allowed units, and bare numbers only when the schema reads them.
+ */
+function describeTimeStringGrammar( units: CompiledTimeUnits, grammar: TimeStringGrammarOptions ): TimeStringGrammarDescription {
+    const value = grammar.decimalComma ? '\\d*[.,]?\\d+' : '\\d*\\.?\\d+';
+    const conjunctions = [ 'and' ].concat( grammar.conjunctions || [] ).map( caseInsensitiveSource ).join( '|' );
+    const separator = `(?:\\s*,)?(?:\\s*(?:${ conjunctions }))?\\s*`;
+    const isAllowed = ( config: TimeStringConfig, unit: string ) => !config.allowedUnits || config.allowedUnits.indexOf( unit ) !== -1;
+
+    return {
+        pattern: ( config ) => {
+            const aliases = units.aliasList.filter( ( alias ) => isAllowed( config, units.aliases.get( alias ) as string ) );
+            const segment = `${ value }\\s*(?:${ aliases.map( caseInsensitiveSource ).join( '|' ) })`;
+            const compound = `${ segment }(?:${ separator }${ segment })*`;
+            const bare = config.unitless !== null && isAllowed( config, config.unitless );
+            return `-?${ bare ? `(?:${ compound }|${ value })` : compound }`;
+        },
+        description: ( config ) => {
+            const names = config.allowedUnits || Object.keys( config.units );
+            const bare = config.unitless !== null && isAllowed( config, config.unitless )
+                ? `; a bare number is read as ${ describeUnit( config.unitless ) }`
+                : '';
+            return `Duration written as one or more numbers with units (${ names.join( ', ' ) })${ bare }`;
+        },
+        examples: ( config ) => [ '1h 30m', '90s', '2 days', '500ms' ].concat(
+            ( config.allowedUnits || [] ).map( ( unit ) => `1${ ( config.units[ unit ] as TimeUnitDefinition ).aliases[ 0 ] }` )
+        ),
+    };
+}
+
+// ISO 8601 designators in the order they must appear, split by the "T" time separator
+const ISO_DATE_DESIGNATORS: Record<string, TimeUnit> = {
+    Y: TimeUnit.YEAR,
+    M: TimeUnit.MONTH,
+    W: TimeUnit.WEEK,
+    D: TimeUnit.DAY,
+};
+
+const ISO_TIME_DESIGNATORS: Record<string, TimeUnit> = {
+    H: TimeUnit.HOUR,
+    M: TimeUnit.MINUTE,
+    S: TimeUnit.SECOND,
+};
+
+const ISO_PREFIX_PATTERN = /^([-+])?P/i;
+const ISO_COMPONENT_PATTERN = /(-?\d+(?:[.,]\d+)?)([a-zA-Z])/y;
+
+/**
+ * Parses an ISO 8601 duration such as "PT1H30M", "P3DT4H" or "P2W".
+ * Years and months use the same fixed lengths as the shorthand units, and only the last
+ * component may carry a fraction ("PT1.5S", "PT0,5H").
+ */
+function parseIsoDuration( input: string ): TimeStringParseResult {
+    const prefix = ISO_PREFIX_PATTERN.exec( input );
+    if ( !prefix ) {
+        return { success: false, kind: 'format', segment: input, offset: 0 };
+    }
+
+    let position = prefix[ 0 ].length;
+    let designators = ISO_DATE_DESIGNATORS;
+    let order = Object.keys( designators );
+    let lastIndex = -1;
+    let inTime = false;
+    let timeCount = 0;
+    let fractional = false;
+    const negative = prefix[ 1 ] === '-';
+    const segments: TimeStringSegment[] = [];
+
+    while ( position < input.length ) {
+        if ( input[ position ] === 'T' || input[ position ] === 't' ) {
+            if ( inTime ) {
+                return { success: false, kind: 'format', segment: input.slice( position ), offset: position };
+            }
+            inTime = true;
+            designators = ISO_TIME_DESIGNATORS;
+            order = Object.keys( designators );
+            lastIndex = -1;
+            position++;
+            continue;
+        }
+
+        ISO_COMPONENT_PATTERN.lastIndex = position;
+        const match = ISO_COMPONENT_PATTERN.exec( input );
+        if ( !match ) {
+            return { success: false, kind: 'format', segment: input.slice( position ), offset: position };
+        }
+
+        const [ segment, valueStr = '', designatorStr = '' ] = match;
+        const designator = designatorStr.toUpperCase();
+        position += segment.length;
+
+        if ( !( designator in ISO_DATE_DESIGNATORS ) && !( designator in ISO_TIME_DESIGNATORS ) ) {
+            return { success: false, kind: 'unit', segment, offset: position - designatorStr.length, unit: designatorStr };
+        }
+
+        // designators must belong to the current section, appear at most once and keep their order
+        const index = order.indexOf( designator );
+        if ( index <= lastIndex || fractional ) {
+            return { success: false, kind: 'format', segment, offset: position - segment.length };
+        }
+        lastIndex = index;
+
+        const value = valueStr.replace( ',', '.' );
+        if ( !isFinite( parseFloat( value ) ) ) {
+            return { success: false, kind: 'value', segment, offset: position - segment.length };
+        }
+
+        fractional = value.indexOf( '.' ) !== -1;
+        segments.push( {
+            value: negative ? negateValue( value ) : value,
+            unit: designators[ designator ] as TimeUnit,
+            text: segment,
+            offset: position - segment.length,
+        } );
+        if ( inTime ) timeCount++;
+    }
+
+    // "P" and "PT" on their own, or a dangling "T", carry no duration
+    if ( segments.length === 0 || ( inTime && timeCount === 0 ) ) {
+        return { success: false, kind: 'format', segment: input, offset: 0 };
+    }
+
+    return { success: true, segments };
+}
+
+const ISO_NUMBER_SOURCE = '-?\\d+(?:[.,]\\d+)?';
+
+// ISO 8601 durations in JSON Schema; the pattern checks the designator order, but not which component may carry a fraction
+const ISO_DURATION_GRAMMAR: TimeStringGrammarDescription = {
+    pattern: () => {
+        const component = ( designator: string ) => `(?:${ ISO_NUMBER_SOURCE }${ caseInsensitiveSource( designator ) })?`;
+        const date = [ 'Y', 'M', 'W', 'D' ].map( component ).join( '' );
+        const time = [ 'H', 'M', 'S' ].map( component ).join( '' );
+        return `[-+]?[pP](?=[-\\d]|[tT][-\\d])${ date }(?:[tT]${ time })?`;
+    },
+    description: () => 'ISO 8601 duration such as "PT1H30M", "P3DT4H" or "P2W"',
+    examples: () => [ 'PT1H30M', 'P3DT4H', 'P2W', 'PT0.5S' ],
+};
+
+// Whether a clock duration with two fields is read as minutes and seconds or as hours and minutes
+export type ClockTwoPartFormat = 'mm:ss' | 'hh:mm';
+
+// Units of the clock fields by field count, largest first
+const CLOCK_FIELD_UNITS: Record<number, TimeUnit[]> = {
+    3: [ TimeUnit.HOUR, TimeUnit.MINUTE, TimeUnit.SECOND ],
+    4: [ TimeUnit.DAY, TimeUnit.HOUR, TimeUnit.MINUTE, TimeUnit.SECOND ],
+};
+
+// Fields after the first must stay below the size of the next larger unit
+const CLOCK_FIELD_LIMITS: Partial<Record<TimeUnit, number>> = {
+    [ TimeUnit.HOUR ]: 24,
+    [ TimeUnit.MINUTE ]: 60,
+    [ TimeUnit.SECOND ]: 60,
+};
+
+/**
+ * Creates a parser for clock durations such as "1:02:03.500", "90:00" or "2:04:00:00" (D:HH:MM:SS).
+ * The first field may be any whole number, later fields take two digits, and only seconds may carry a fraction.
+ */
+function createClockParser( twoPart: ClockTwoPartFormat ): TimeStringParser {
+    const twoPartUnits = twoPart === 'hh:mm' ? [ TimeUnit.HOUR, TimeUnit.MINUTE ] : [ TimeUnit.MINUTE, TimeUnit.SECOND ];
+
+    return ( input ) => {
+        const negative = input.startsWith( '-' );
+        const start = negative || input.startsWith( '+' ) ? 1 : 0;
+        // count colons only up to one too many, so a long value with many fields is rejected without splitting it
+        let colons = 0;
+        for ( let index = input.indexOf( ':', start ); index !== -1 && colons < 4; index = input.indexOf( ':', index + 1 ) ) {
+            colons++;
+        }
+        const fields = colons < 4 ? input.slice( start ).split( ':' ) : [];
+        const units = fields.length === 2 ? twoPartUnits : CLOCK_FIELD_UNITS[ fields.length ];
+        if ( !units ) {
+            return { success: false, kind: 'format', segment: input, offset: 0 };
+        }
+
+        const segments: TimeStringSegment[] = [];
+        let offset = start;
+        for ( let i = 0; i < fields.length; i++ ) {
+            const field = fields[ i ] as string;
+            const unit = units[ i ] as TimeUnit;
+            const pattern = i === 0 ? /^\d+$/ : unit === TimeUnit.SECOND ? /^\d{2}(?:[.,]\d+)?$/ : /^\d{2}$/;
+            if ( !pattern.test( field ) ) {
+                return { success: false, kind: 'format', segment: field, offset };
+            }
+
+            const value = field.replace( ',', '.' );
+            if ( i > 0 && parseFloat( value ) >= ( CLOCK_FIELD_LIMITS[ unit ] as number ) ) {
+                return { success: false, kind: 'value', segment: field, offset };
+            }
+
+            segments.push( { value: negative ? negateValue( value ) : value, unit, text: field, offset } );
+            offset += field.length + 1;
+        }
+
+        return { success: true, segments };
+    };
+}
+
+// Clock durations in JSON Schema, with the same field limits as the parser
+function describeClockGrammar( twoPart: ClockTwoPartFormat ): TimeStringGrammarDescription {
+    const fraction = '(?:[.,]\\d+)?';
+    const sixty = '[0-5]\\d';
+    const forms = [
+        twoPart === 'hh:mm' ? `\\d+:${ sixty }` : `\\d+:${ sixty }${ fraction }`,
+        `\\d+:${ sixty }:${ sixty }${ fraction }`,
+        `\\d+:(?:[01]\\d|2[0-3]):${ sixty }:${ sixty }${ fraction }`,
+    ];
+
+    return {
+        pattern: () => `[-+]?(?:${ forms.join( '|' ) })`,
+        description: () => `Clock duration written as ${ twoPart === 'hh:mm' ? 'H:MM' : 'M:SS' }, H:MM:SS or D:HH:MM:SS, such as "1:30:00"`,
+        examples: () => [ '1:30:00', '0:00:01.500', '2:04:00:00' ],
+    };
+}
+
+// How a value converted to the output unit is turned into the final number
+export type TimeStringRounding = 'round' | 'floor' | 'ceil' | 'trunc' | 'none';
+
+// Validation methods shared by every schema that checks a duration, returning the same kind of schema
+export interface TimeStringChecks<Self> {
+    positive( params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    negative( params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    /**
+     * Bounds are given in the output unit, or as a time string parsed with the schema's own grammar
+     */
+    min( minValue: number | string, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    max( maxValue: number | string, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    // Exclusive bounds, given like min() and max()
+    gt( minValue: number | string, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    lt( maxValue: number | string, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    nonnegative( params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    nonpositive( params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    /**
+     * Inclusive bounds on both sides; throws when min is greater than max
+     */
+    between( minValue: number | string, maxValue: number | string, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    /**
+     * Moves values outside [min, max] to the nearest bound instead of rejecting them, after any snapping
+     */
+    clamp( minValue: number | string, maxValue: number | string ): Self;
+
+    /**
+     * Requires a whole number of steps; the step is given like a bound and must be positive
+     */
+    multipleOf( step: number | string, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    /**
+     * Requires a whole number of the given unit, e.g. whole seconds
+     */
+    granularity( unit: string, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    /**
+     * Rounds parsed values to a whole number of steps before they are checked and output
+     */
+    snap( step: number | string, rounding?: TimeStringSnapRounding ): Self;
+}
+
+// How snap() picks the step for a value between two steps
+export type TimeStringSnapRounding = Exclude<TimeStringRounding, 'none'>;
+
+// Improved type definition for TimeStringSchema with proper generics
+export interface TimeStringSchema extends z.ZodType<number>, TimeStringChecks<TimeStringSchema> {
+    // Month and year lengths used when parsing is not anchored to a date
+    readonly convention: ActiveMonthYearConvention;
+
+    /**
+     * Creates a new TimeStringSchema with custom error messages
+     */
+    withErrorMessages( options: TimeStringOptions ): TimeStringSchema;
+
+    /**
+     * Creates a new TimeStringSchema that outputs values in the given unit instead of milliseconds.
+     * Numeric bounds chained afterwards are expressed in that unit; bounds chained before keep their meaning.
+     */
+    in( unit: string, rounding?: TimeStringRounding ): TimeStringSchema;
+
+    /**
+     * Creates a new TimeStringSchema that rounds the output with the given policy
+     */
+    rounding( rounding: TimeStringRounding ): TimeStringSchema;
+
+    /**
+     * Creates a schema that outputs an exact bigint in the current output unit, for values beyond Number.MAX_SAFE_INTEGER.
+     * Fractional results are rounded with the current policy, or rejected when it is 'none'.
+     */
+    bigint(): z.ZodType<bigint>;
+
+    /**
+     * Creates a codec that decodes like this schema, including its refinements, and encodes numbers
+     * in the output unit back into a canonical time string with z.encode.
+     */
+    codec( options?: TimeStringCodecOptions ): z.ZodCodec<z.ZodString, z.ZodNumber>;
+
+    /**
+     * Creates a new TimeStringSchema that applies month and year segments with calendar arithmetic (in UTC)
+     * from the anchor, which is read on every parse when it is a function. The output is the exact delta,
+     * or the resulting Date when the output option is 'date'.
+     */
+    relativeTo( anchor: TimeStringAnchor ): TimeStringSchema;
+    relativeTo( anchor: TimeStringAnchor, options: { output: 'date' } ): z.ZodType<Date>;
+
+    /**
+     * Creates a schema for times relative to the clock, such as "in 5 minutes", "5m ago", "now+2h" or "now",
+     * with the offset read like this schema and checked by its chained checks.
+     * Months and years are counted on the calendar from the clock.
+     */
+    fromNow( options?: RelativeTimeOptions & { output?: 'date' } ): RelativeTimeSchema<Date>;
+    fromNow( options: RelativeTimeOptions & { output: 'ms' } ): RelativeTimeSchema<number>;
+
+    /**
+     * Creates a new TimeStringSchema that converts months and years with a named convention or explicit lengths
+     */
+    withConvention( convention: MonthYearConventionOption ): TimeStringSchema;
+
+    /**
+     * Creates a schema that outputs a TimeStringDuration describing what was written as well as its total.
+     * Chained checks compare the total in the output unit.
+     */
+    detailed(): DetailedTimeStringSchema;
+
+    /**
+     * Creates a schema for ranges such as "5m-10m", "1s..30s" or "5m to 1h" that outputs both ends in the output unit.
+     * Each end is read like this schema, including its chained checks, and the start may not exceed the end.
+     */
+    range(): TimeStringRangeSchema;
+
+    /**
+     * Creates a new TimeStringSchema that rejects bare numbers instead of reading them as the default unit
+     */
+    strict(): TimeStringSchema;
+
+    /**
+     * Creates a new TimeStringSchema that reads bare numbers in the given unit instead of milliseconds
+     */
+    defaultUnit( unit: string ): TimeStringSchema;
+
+    /**
+     * Creates a new TimeStringSchema that only accepts the given units, e.g. seconds to hours
+     */
+    units( allowed: readonly string[] ): TimeStringSchema;
+
+    /**
+     * Creates a new TimeStringSchema that also accepts finite numbers, read in the given unit
+     * (defaults to the unit for bare numbers, or milliseconds in strict mode)
+     */
+    acceptNumbers( unit?: string ): TimeStringSchema;
+}
+
+// A segment of the input with its value as a number and its unit by canonical name (a TimeUnit for the built-in units)
+export interface TimeStringDurationSegment {
+    value: number;
+    unit: string;
+}
+
+// Structured output of a detailed schema
+export interface TimeStringDuration {
+    // The trimmed input as written, or the number as a string
+    input: string;
+    segments: TimeStringDurationSegment[];
+    // Total length in milliseconds
+    ms: number;
+    // Total in the schema's output unit, rounded with its policy
+    value: number;
+    unit: string;
+    // Converts the total to another unit of the schema's unit table, without rounding
+    to( unit: string ): number;
+}
+
+export interface DetailedTimeStringSchema extends z.ZodType<TimeStringDuration>, TimeStringChecks<DetailedTimeStringSchema> {}
+
+// Both ends of a range in the schema's output unit
+export interface TimeStringRange {
+    min: number;
+    max: number;
+}
+
+export interface TimeStringRangeSchema extends z.ZodType<TimeStringRange>, TimeStringChecks<TimeStringRangeSchema> {}
+
+// Point in time that calendar months and years are counted from, or a clock that provides it
+export type TimeStringAnchor = Date | number | ( () => Date | number );
+
+// Options for relative time schemas
+export interface RelativeTimeOptions {
+    // Current time, read on every parse when it is a function (defaults to Date.now)
+    clock?: TimeStringAnchor;
+    // 'date' outputs a Date, 'ms' the epoch milliseconds
+    output?: 'date' | 'ms';
+}
+
+// A relative time schema; the validation methods check the offset from the clock in milliseconds
+export interface RelativeTimeSchema<T> extends z.ZodType<T>, TimeStringChecks<RelativeTimeSchema<T>> {
+    future( params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): RelativeTimeSchema<T>;
+
+    past( params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): RelativeTimeSchema<T>;
+}
+
+// Options for encoding values back into time strings
+export interface TimeStringCodecOptions extends Omit<FormatTimeStringOptions, 'format' | 'units' | 'negative'> {
+    // 'compound' spreads the value over several units ("1h 30m"), a unit writes it in that unit alone ("90m")
+    encodeAs?: 'compound' | TimeUnit;
+}
+
+// Where a check runs: the unit table, the output unit's length and the anchor read for this parse
+interface CheckScope {
+    units: TimeUnitTable;
+    factor: Fraction;
+    anchor: number | undefined;
+}
+
+// A chained check, kept in the schema state so that every chain method rebuilds the schema with it
+interface TimeStringCheck {
+    checkFn: ( val: number, scope: CheckScope ) => boolean;
+    params: ErrorParamType;
+    defaultMessage: string;
+    describe: ( scope: CheckScope ) => Omit<TimeStringIssueParams, 'value'>;
+    // The bound as written, for localized messages
+    bound?: string | undefined;
+}
+
+// Step that parsed values are rounded to, as an exact length in milliseconds
+interface TimeStringSnap {
+    ms: ( scope: CheckScope ) => Fraction;
+    rounding: TimeStringSnapRounding;
+}
+
+/**
+ * Immutable schema state. Chain methods never modify it: they build a new schema from a copy
+ * with one setting changed, so every earlier setting and check carries over whatever the order.
+ */
+interface TimeStringConfig {
+    parse: TimeStringParser;
+    // Writes milliseconds back in the grammar that parse reads
+    format: ( ms: number, options: FormatTimeStringOptions ) => string;
+    // Describes the grammar that parse reads for JSON Schema
+    grammar: TimeStringGrammarDescription;
+    units: TimeUnitTable;
+    options?: TimeStringOptions | undefined;
+    unit: string;
+    rounding: TimeStringRounding;
+    anchor?: TimeStringAnchor | undefined;
+    convention: ActiveMonthYearConvention;
+    // Unit for bare numbers, or null to reject them
+    unitless: string | null;
+    allowedUnits?: readonly string[] | undefined;
+    // Unit for numeric input, or null to accept strings only
+    numberUnit: string | null;
+    checks: readonly TimeStringCheck[];
+    snap?: TimeStringSnap | undefined;
+    // Limits that parsed values are moved within; an infinite limit has no ms
+    clamp?: { min: ResolvedBound; max: ResolvedBound } | undefined;
+    // Default messages from the schema's locales
+    messages?: TimeStringLocaleMessages | undefined;
+}
+
+// What was parsed, for converters that report more than the total
+interface ConversionContext {
+    input: string;
+    segments: TimeStringSegment[];
+    // Exact total in milliseconds
+    ms: Fraction;
+    anchor: number | undefined;
+}
+
+// Turns the exact value in the output unit into the schema output, or explains why it cannot be represented
+type OutputConverter<T> = ( exact: Fraction, config: TimeStringConfig, context: ConversionContext ) =>
+    | { success: true; value: T }
+    | { success: false; message: string };
+
+function toNumberOutput( exact: Fraction, config: TimeStringConfig ): ReturnType<OutputConverter<number>> {
+    const value = config.rounding === 'none' ? toNumber( exact ) : Number( roundFraction( exact, config.rounding ) );
+    if ( !( Math.abs( value ) <= Number.MAX_SAFE_INTEGER ) ) {
+        return { success: false, message: 'Time value is too large to be represented exactly' };
+    }
+    return { success: true, value };
+}
+
+function toBigIntOutput( exact: Fraction, config: TimeStringConfig ): ReturnType<OutputConverter<bigint>> {
+    if ( config.rounding === 'none' ) {
+        return isInteger( exact )
+            ? { success: true, value: roundFraction( exact, 'trunc' ) }
+            : { success: false, message: `Time value is not a whole number of ${ config.unit }` };
+    }
+    return { success: true, value: roundFraction( exact, config.rounding ) };
+}
+
+function toDateOutput( exact: Fraction, config: TimeStringConfig, context: ConversionContext ): ReturnType<OutputConverter<Date>> {
+    const rounding = config.rounding === 'none' ? 'trunc' : config.rounding;
+    const date = new Date( ( context.anchor as number ) + Number( roundFraction( exact, rounding ) ) );
+    return isNaN( date.getTime() )
+        ? { success: false, message: 'Time value is outside the range of dates' }
+        : { success: true, value: date };
+}
+
+function toTimestampOutput( exact: Fraction, config: TimeStringConfig, context: ConversionContext ): ReturnType<OutputConverter<number>> {
+    const date = toDateOutput( exact, config, context );
+    return date.success ? { success: true, value: date.value.getTime() } : date;
+}
+
+function toDurationOutput( exact: Fraction, config: TimeStringConfig, context: ConversionContext ): ReturnType<OutputConverter<TimeStringDuration>> {
+    const total = toNumberOutput( exact, config );
+    if ( !total.success ) return total;
+
+    const { input, segments, ms } = context;
+    const { units } = config;
+    return {
+        success: true,
+        value: {
+            input,
+            segments: segments.map( ( segment ) => ( { value: parseFloat( segment.value ), unit: segment.unit } ) ),
+            ms: toNumber( ms ),
+            value: total.value,
+            unit: config.unit,
+            to( unit: string ): number {
+                const definition = units[ unit ];
+                if ( !definition ) {
+                    throw new Error( `Unknown time unit "${ unit }"` );
+                }
+                return toNumber( divide( ms, fromNumber( definition.ms ) ) );
+            },
+        },
+    };
+}
+
+// A JSON Schema as z.toJSONSchema emits it
+type JsonSchema = z.core.JSONSchema.JSONSchema;
+
+// Limits that the chained checks put on a value in the output unit
+interface TimeStringBounds {
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+}
+
+// Vendor extensions that carry the limits in milliseconds, whatever the output unit
+const MILLISECOND_BOUND_KEYS: Record<keyof TimeStringBounds, string> = {
+    minimum: 'x-minimum-ms',
+    maximum: 'x-maximum-ms',
+    exclusiveMinimum: 'x-exclusive-minimum-ms',
+    exclusiveMaximum: 'x-exclusive-maximum-ms',
+    multipleOf: 'x-multiple-of-ms',
+};
+
+/**
+ * Reads the limits of the chained checks, keeping the strictest of each kind.
+ * Months and years in bounds count with the schema's fixed lengths, as there is no anchor to read.
+ */
+function readCheckBounds( config: TimeStringConfig ): TimeStringBounds {
+    const scope: CheckScope = {
+        units: config.units,
+        factor: fromNumber( ( config.units[ config.unit ] as TimeUnitDefinition ).ms ),
+        anchor: undefined,
+    };
+    const bounds: TimeStringBounds = {};
+    const tighten = ( key: keyof TimeStringBounds, value: number | undefined, stricter: ( a: number, b: number ) => number ) => {
+        if ( value === undefined || !isFinite( value ) ) return;
+        const current = bounds[ key ];
+        bounds[ key ] = current === undefined ? value : stricter( current, value );
+    };
+
+    for ( const check of config.checks ) {
+        const { code, minimum, maximum, inclusive, step } = check.describe( scope );
+        switch ( code ) {
+            case TimeStringIssueCode.TOO_SMALL:
+                tighten( inclusive === false ? 'exclusiveMinimum' : 'minimum', minimum, Math.max );
+                break;
+            case TimeStringIssueCode.TOO_BIG:
+                tighten( inclusive === false ? 'exclusiveMaximum' : 'maximum', maximum, Math.min );
+                break;
+            case TimeStringIssueCode.NOT_POSITIVE:
+            case TimeStringIssueCode.NOT_FUTURE:
+                tighten( 'exclusiveMinimum', 0, Math.max );
+                break;
+            case TimeStringIssueCode.NOT_NEGATIVE:
+            case TimeStringIssueCode.NOT_PAST:
+                tighten( 'exclusiveMaximum', 0, Math.min );
+                break;
+            case TimeStringIssueCode.NOT_MULTIPLE_OF:
+                // JSON Schema takes a single step: keep the one that is a multiple of the other, or else the last
+                tighten( 'multipleOf', step, ( a, b ) => isMultipleOf( a, b ) ? a : b );
+                break;
+        }
+    }
+    return bounds;
+}
+
+function toMillisecondBounds( config: TimeStringConfig, bounds: TimeStringBounds ): Record<string, number> {
+    const factor = fromNumber( ( config.units[ config.unit ] as TimeUnitDefinition ).ms );
+    const extensions: Record<string, number> = {};
+    for ( const key of Object.keys( bounds ) as ( keyof TimeStringBounds )[] ) {
+        extensions[ MILLISECOND_BOUND_KEYS[ key ] ] = toNumber( multiply( fromNumber( bounds[ key ] as number ), factor ) );
+    }
+    return extensions;
+}
+
+// Describes the text a schema accepts, and numbers when it reads them too
+function describeTimeStringInput( pattern: string, description: string, examples: string[], numberUnit: string | null ): JsonSchema {
+    const text: JsonSchema = { type: 'string', pattern: `^\\s*(?:${ pattern })\\s*$` };
+    return {
+        ...( numberUnit === null ? text : { anyOf: [ text, { type: 'number' } ] } ),
+        description: numberUnit === null ? description : `${ description }; a JSON number is read as ${ describeUnit( numberUnit ) }`,
+        ...( examples.length > 0 ? { examples } : {} ),
+    };
+}
+
+// Describes what a schema outputs, given the limits of its checks and what its examples parse to
+type OutputDescriber = ( config: TimeStringConfig, bounds: TimeStringBounds, outputs: unknown[] ) => JsonSchema;
+
+function describeNumberOutput( config: TimeStringConfig, bounds: TimeStringBounds, outputs: unknown[] ): JsonSchema {
+    return {
+        type: config.rounding === 'none' ? 'number' : 'integer',
+        description: `Duration in ${ describeUnit( config.unit ) }`,
+        ...bounds,
+        ...( outputs.length > 0 ? { examples: outputs } : {} ),
+    };
+}
+
+function describeBigIntOutput( config: TimeStringConfig, bounds: TimeStringBounds, outputs: unknown[] ): JsonSchema {
+    return { ...describeNumberOutput( config, bounds, outputs.map( Number ) ), type: 'integer' };
+}
+
+function describeDateOutput(): JsonSchema {
+    return { type: 'string', format: 'date-time', description: 'Point in time' };
+}
+
+function describeTimestampOutput(): JsonSchema {
+    return { type: 'integer', description: 'Point in time in milliseconds since the Unix epoch' };
+}
+
+function describeDurationOutput( config: TimeStringConfig, bounds: TimeStringBounds ): JsonSchema {
+    return {
+        type: 'object',
+        properties: {
+            input: { type: 'string' },
+            segments: {
+                type: 'array',
+                items: { type: 'object', properties: { value: { type: 'number' }, unit: { type: 'string' } }, required: [ 'value', 'unit' ] },
+            },
+            ms: { type: 'number', description: 'Duration in milliseconds' },
+            value: describeNumberOutput( config, bounds, [] ),
+            unit: { type: 'string', const: config.unit },
+        },
+        required: [ 'input', 'segments', 'ms', 'value', 'unit' ],
+    };
+}
+
+/**
+ * Lets z.toJSONSchema describe a parsing pipe. In input mode it reads the pipe's input schema, which stands
+ * for the accepted text, and in output mode its transform, which stands for the output.
+ * Only the candidate examples that the schema accepts are listed.
+ */
+function setJsonSchema(
+    schema: Pick<z.ZodPipe, 'in' | 'out' | 'safeParse'>,
+    candidates: readonly string[],
+    describeInput: ( examples: string[] ) => JsonSchema,
+    describeOutput: ( outputs: unknown[] ) => JsonSchema
+): void {
+    const examples = () => {
+        const accepted: { input: string; output: unknown }[] = [];
+        for ( const candidate of candidates ) {
+            const result = schema.safeParse( candidate );
+            if ( result.success && accepted.length < 3 && !accepted.some( ( example ) => example.input === candidate ) ) {
+                accepted.push( { input: candidate, output: result.data } );
+            }
+        }
+        return accepted;
+    };
+
+    schema.in._zod.toJSONSchema = () => describeInput( examples().map( ( example ) => example.input ) );
+    schema.out._zod.toJSONSchema = () => describeOutput( examples().map( ( example ) => example.output ) );
+}
+
+// Describes a time string pipe like setJsonSchema, with the limits of its checks in milliseconds in both modes
+function setTimeStringJsonSchema(
+    schema: Pick<z.ZodPipe, 'in' | 'out' | 'safeParse'>,
+    config: TimeStringConfig,
+    candidates: readonly string[],
+    describeInput: ( examples: string[] ) => JsonSchema,
+    describeOutput: ( bounds: TimeStringBounds, outputs: unknown[] ) => JsonSchema
+): void {
+    setJsonSchema(
+        schema,
+        candidates,
+        ( examples ) => ( { ...describeInput( examples ), ...toMillisecondBounds( config, readCheckBounds( config ) ) } ),
+        ( outputs ) => {
+            const bounds = readCheckBounds( config );
+            return { ...describeOutput( bounds, outputs ), ...toMillisecondBounds( config, bounds ) };
+        }
+    );
+}
+
+// Reads the current anchor timestamp, throwing when it is not a valid date
+function readAnchor( anchor: TimeStringAnchor ): number {
+    const value = typeof anchor === 'function' ? anchor() : anchor;
+    const timestamp = typeof value === 'number' ? value : value.getTime();
+    if ( !isFinite( timestamp ) ) {
+        throw new Error( `Invalid anchor date: ${ String( value ) }` );
+    }
+    return timestamp;
+}
+
+// Outcome of applying a schema's unit policy to parsed segments
+type UnitPolicyResult =
+    | { success: true; segments: TimeStringSegment[] }
+    | { success: false; kind: 'missing_unit' | 'unit_not_allowed'; segment: TimeStringSegment };
+
+/**
+ * Gives bare numbers the schema's default unit, or rejects them in strict mode,
+ * and rejects units outside the allowed set
+ */
+function applyUnitPolicy( segments: TimeStringSegment[], config: TimeStringConfig ): UnitPolicyResult {
+    const { unitless, allowedUnits } = config;
+    const result: TimeStringSegment[] = [];
+
+    for ( const segment of segments ) {
+        if ( segment.unitless && unitless === null ) {
+            return { success: false, kind: 'missing_unit', segment };
+        }
+
+        const current = segment.unitless ? { ...segment, unit: unitless as string } : segment;
+        if ( allowedUnits && allowedUnits.indexOf( current.unit ) === -1 ) {
+            return { success: false, kind: 'unit_not_allowed', segment: current };
+        }
+        result.push( current );
+    }
+
+    return { success: true, segments: result };
+}
+
+/**
+ * Helper function to resolve error messages from various formats.
+ * Returns undefined when no message is configured, so the default applies.
+ */
+function resolveErrorMessage(
+    errorOption: UnitErrorParamType,
+    invalidValue: string,
+    suggestion?: string
+): string | undefined {
+    if ( !errorOption ) return undefined;
+
+    if ( typeof errorOption === 'string' ) return errorOption;
+    if ( typeof errorOption === 'function' ) return errorOption( invalidValue, suggestion );
+
+    const { message } = errorOption;
+    return typeof message === 'function' ? message( invalidValue, suggestion ) : message;
+}
+
+// Picks the locale's default message for an issue, keeping the English one when the locale has none
+function localizeMessage(
+    messages: TimeStringLocaleMessages | undefined,
+    params: TimeStringIssueParams,
+    input: string,
+    defaultMessage: string,
+    bound?: string
+): string {
+    const message = messages?.[ params.code ];
+    return message ? message( { ...params, input, ...( bound === undefined ? {} : { bound } ) } ) : defaultMessage;
+}
+
+// Helper function to create an issue in the validation context
+function createIssue( v: any, input: unknown, params: TimeStringIssueParams, message: string | undefined, defaultMessage: string ) {
+    v.addIssue( createTimeStringIssue( input, params, message, defaultMessage ) );
+}
+
+/**
+ * Creates a base time string schema with optional custom error messages
+ */
+function createBaseTimeStringSchema<T>( config: TimeStringConfig, convert: OutputConverter<T>, describeOutput: OutputDescriber ) {
+    const { parse, options } = config;
+    const factor = fromNumber( ( config.units[ config.unit ] as TimeUnitDefinition ).ms );
+
+    // Numbers are only let through when the schema accepts them; the transform rejects non-finite ones
+    const inputSchema = config.numberUnit === null
+        ? z.string()
+        : z.custom<string | number>(
+            ( input ) => typeof input === 'string' || typeof input === 'number',
+            { error: 'Expected a time string or a number' }
+        );
+
+    const schema = inputSchema
+        .transform( ( input: string | number, ctx ) => {
+            let value: string;
+            let leading = 0;
+            let segments: TimeStringSegment[];
+
+            // Adds an issue whose default message follows the schema's locales
+            const report = ( params: TimeStringIssueParams, message: string | undefined, defaultMessage: string, bound?: string ) => {
+                createIssue( ctx, input, params, message, localizeMessage( config.messages, params, value, defaultMessage, bound ) );
+            };
+
+            if ( typeof input === 'number' ) {
+                value = input.toString();
+                if ( !isFinite( input ) ) {
+                    report(
+                        { code: TimeStringIssueCode.INVALID_VALUE, segment: value, offset: 0 },
+                        resolveErrorMessage( options?.invalidValueError, value ),
+                        `Invalid time value: ${ value }`
+                    );
+                    return z.NEVER;
+                }
+
+                // A number carries the schema's number unit, so strict mode and the allowed units do not apply
+                segments = [ { value, unit: config.numberUnit as string, text: value, offset: 0 } ];
+            } else {
+                value = input.trim();
+                // Offsets are reported against the input as given, before trimming
+                leading = input.length - input.replace( /^\s+/, '' ).length;
+
+                const result = parse( value );
+                if ( !result.success ) {
+                    // Point at the offending segment when the input holds more than one
+                    const where = result.segment === value ? '' : ` (in segment "${ result.segment }")`;
+                    const location = { segment: result.segment, offset: leading + result.offset };
+
+                    if ( result.kind === 'unit' ) {
+                        const unitString = result.unit || '';
+                        const { suggestion } = result;
+                        report(
+                            { code: TimeStringIssueCode.INVALID_UNIT, ...location, unit: unitString, ...( suggestion ? { suggestion } : {} ) },
+                            resolveErrorMessage( options?.invalidUnitError, unitString, suggestion ),
+                            suggestion
+                                ? `Unknown unit '${ unitString }'; did you mean '${ suggestion }'?${ where }`
+                                : `Invalid time unit: ${ unitString }${ where }`
+                        );
+                        return z.NEVER;
+                    }
+
+                    if ( result.kind === 'value' ) {
+                        report(
+                            { code: TimeStringIssueCode.INVALID_VALUE, ...location },
+                            resolveErrorMessage( options?.invalidValueError, result.segment ),
+                            `Invalid time value: ${ value }${ where }`
+                        );
+                        return z.NEVER;
+                    }
+
+                    report(
+                        { code: TimeStringIssueCode.INVALID_FORMAT, ...location },
+                        resolveErrorMessage( options?.invalidFormatError, result.segment ),
+                        `Invalid time format: ${ value }${ where }`
+                    );
+                    return z.NEVER;
+                }
+
+                const policy = applyUnitPolicy( result.segments, config );
+                if ( !policy.success ) {
+                    const { segment } = policy;
+                    const where = segment.text === value ? '' : ` (in segment "${ segment.text }")`;
+                    const location = { segment: segment.text, offset: leading + segment.offset };
+
+                    if ( policy.kind === 'missing_unit' ) {
+                        report(
+                            { code: TimeStringIssueCode.MISSING_UNIT, ...location },
+                            resolveErrorMessage( options?.missingUnitError, segment.text ),
+                            `Missing time unit: ${ segment.text }`
+                        );
+                        return z.NEVER;
+                    }
+
+                    const allowed = ( config.allowedUnits as readonly string[] ).slice();
+                    report(
+                        { code: TimeStringIssueCode.UNIT_NOT_ALLOWED, ...location, unit: segment.unit, allowed },
+                        resolveErrorMessage( options?.unitNotAllowedError, segment.unit ),
+                        `Time unit '${ segment.unit }' is not allowed; use one of: ${ allowed.join( ', ' ) }${ where }`
+                    );
+                    return z.NEVER;
+                }
+
+                segments = policy.segments;
+            }
+
+            const anchor = config.anchor === undefined ? undefined : readAnchor( config.anchor );
+            const scope: CheckScope = { units: config.units, factor, anchor };
+            let exact = toExactMilliseconds( segments, config.units, anchor );
+            if ( !exact ) {
+                report(
+                    { code: TimeStringIssueCode.UNREPRESENTABLE, segment: value, offset: leading },
+                    resolveErrorMessage( options?.invalidValueError, value ),
+                    `Time value is outside the range of dates: ${ value }`
+                );
+                return z.NEVER;
+            }
+            if ( config.snap ) {
+                // Snapped values replace the parsed ones, so the checks and every output see the same total
+                const step = config.snap.ms( scope );
+                exact = multiply( { numerator: roundFraction( divide( exact, step ), config.snap.rounding ), denominator: BigInt( 1 ) }, step );
+            }
+            if ( config.clamp ) {
+                const { min, max } = config.clamp;
+                if ( min.ms && compare( exact, min.ms( scope ) ) < 0 ) exact = min.ms( scope );
+                if ( max.ms && compare( exact, max.ms( scope ) ) > 0 ) exact = max.ms( scope );
+            }
+            const exactOutput = divide( exact, factor );
+            const output = convert( exactOutput, config, { input: value, segments, ms: exact, anchor } );
+            if ( !output.success ) {
+                report(
+                    { code: TimeStringIssueCode.UNREPRESENTABLE, segment: value, offset: leading, value: toNumber( exactOutput ) },
+                    resolveErrorMessage( options?.invalidValueError, value ),
+                    `${ output.message }: ${ value }`
+                );
+                return z.NEVER;
+            }
+
+            // Chained checks compare the total in the output unit, rounded as a number output would be
+            const total = config.rounding === 'none' ? toNumber( exactOutput ) : Number( roundFraction( exactOutput, config.rounding ) );
+            let passed = true;
+            for ( const check of config.checks ) {
+                if ( !check.checkFn( total, scope ) ) {
+                    report(
+                        { ...check.describe( scope ), value: total },
+                        resolveErrorMessage( check.params, String( total ) ),
+                        check.defaultMessage,
+                        check.bound
+                    );
+                    passed = false;
+                }
+            }
+            if ( !passed ) return z.NEVER;
+
+            return output.value;
+        } );
+
+    const { grammar } = config;
+    setTimeStringJsonSchema(
+        schema,
+        config,
+        grammar.examples( config ),
+        ( examples ) => describeTimeStringInput( grammar.pattern( config ), grammar.description( config ), examples, config.numberUnit ),
+        ( bounds, outputs ) => describeOutput( config, bounds, outputs )
+    );
+    return schema;
+}
+
+// A bound resolved for the schema's state; ms is missing for an infinite bound
+interface ResolvedBound {
+    ms?: ( scope: CheckScope ) => Fraction;
+    value: ( scope: CheckScope ) => number;
+    label: string;
+}
+
+/**
+ * Resolves a bound given as a number in the output unit or as a time string.
+ * The bound is read in whatever output unit the schema ends up with, so later chain methods keep its meaning.
+ * Throws when a time string bound cannot be parsed, so mistakes surface when the schema is built.
+ */
+function resolveBound( config: TimeStringConfig, bound: number | string ): ResolvedBound {
+    if ( typeof bound === 'number' ) {
+        if ( !isFinite( bound ) ) {
+            return { value: () => bound, label: bound.toString() };
+        }
+
+        const ms = multiply( fromNumber( bound ), fromNumber( ( config.units[ config.unit ] as TimeUnitDefinition ).ms ) );
+        return { ms: () => ms, value: ( scope ) => toNumber( divide( ms, scope.factor ) ), label: bound.toString() };
+    }
+
+    const label = bound.trim();
+    const result = config.parse( label );
+    if ( !result.success ) {
+        throw new Error( `Invalid time string bound: "${ bound }"` );
+    }
+
+    // Bare numbers follow the schema's default unit, but bounds are not subject to strict mode or the allowed units
+    const segments = result.segments.map( ( segment ) => segment.unitless
+        ? { ...segment, unit: config.unitless === null ? TimeUnit.MILLISECOND : config.unitless }
+        : segment );
+
+    // Months and years follow the schema's convention, or the calendar from the anchor read for this parse;
+    // a bound beyond the range of dates keeps the convention, as every representable value lies on one side of it
+    const ms = ( scope: CheckScope ) => toExactMilliseconds( segments, scope.units, scope.anchor ) || toExactMilliseconds( segments, scope.units );
+    return { ms, value: ( scope ) => toNumber( divide( ms( scope ), scope.factor ) ), label };
+}
+
+/**
+ * Resolves the bounds of between() and clamp().
+ * Throws when min is greater than max, comparing months and years with the schema's fixed lengths.
+ */
+function resolveBoundPair( config: TimeStringConfig, minValue: number | string, maxValue: number | string ): { min: ResolvedBound; max: ResolvedBound } {
+    const min = resolveBound( config, minValue );
+    const max = resolveBound( config, maxValue );
+    const scope: CheckScope = { units: config.units, factor: fromNumber( ( config.units[ config.unit ] as TimeUnitDefinition ).ms ), anchor: undefined };
+    if ( !( min.value( scope ) <= max.value( scope ) ) ) {
+        throw new Error( `Invalid time bounds: ${ min.label } is greater than ${ max.label }` );
+    }
+    return { min, max };
+}
+
+/**
+ * Resolves a step for multipleOf() and snap() like a bound.
+ * Throws unless the step is a positive, finite duration.
+ */
+function resolveStep( config: TimeStringConfig, step: number | string ): ResolvedBound & { ms: ( scope: CheckScope ) => Fraction } {
+    const bound = resolveBound( config, step );
+    const { ms } = bound;
+    const scope: CheckScope = { units: config.units, factor: fromNumber( 1 ), anchor: undefined };
+    if ( !ms || compare( ms( scope ), fromNumber( 0 ) ) <= 0 ) {
+        throw new Error( `Invalid time step: "${ step }" is not a positive duration` );
+    }
+    return { ...bound, ms };
+}
+
+// Whether a value is a whole number of steps, allowing for the binary rounding of decimal fractions such as 0.3 / 0.1
+function isMultipleOf( value: number, step: number ): boolean {
+    const ratio = value / step;
+    return Math.abs( ratio - Math.round( ratio ) ) <= 16 * Number.EPSILON * Math.max( 1, Math.abs( ratio ) );
+}
+
+// Helper function for consistent refinement logic with error messages
+function createRefinementWithMessage<S>(
+    config: TimeStringConfig,
+    checkFn: ( val: number, scope: CheckScope ) => boolean,
+    params: ErrorParamType,
+    defaultMessage: string,
+    describe: ( scope: CheckScope ) => Omit<TimeStringIssueParams, 'value'>,
+    rebuild: ( config: TimeStringConfig ) => S,
+    bound?: string
+): S {
+    return rebuild( { ...config, checks: config.checks.concat( [ { checkFn, params, defaultMessage, describe, bound } ] ) } );
+}
+
+// Adds the shared validation methods to a schema
+function addCheckMethods<S>( schema: TimeStringChecks<S>, config: TimeStringConfig, rebuild: ( config: TimeStringConfig ) => S ) {
+    // Add positive validation with custom error message support
+    schema.positive = function ( params?: ErrorParamType ): S {
+        return createRefinementWithMessage(
+            config,
+            ( val ) => val > 0,
+            params,
+            "Value must be positive",
+            () => ( { code: TimeStringIssueCode.NOT_POSITIVE } ),
+            rebuild
+        );
+    };
+
+    // Add negative validation with custom error message support
+    schema.negative = function ( params?: ErrorParamType ): S {
+        return createRefinementWithMessage(
+            config,
+            ( val ) => val < 0,
+            params,
+            "Value must be negative",
+            () => ( { code: TimeStringIssueCode.NOT_NEGATIVE } ),
+            rebuild
+        );
+    };
+
+    // Add minimum value validation with custom error message support
+    schema.min = function ( minValue: number | string, params?: ErrorParamType ): S {
+        const bound = resolveBound( config, minValue );
+        return createRefinementWithMessage(
+            config,
+            ( val, scope ) => val >= bound.value( scope ),
+            params,
+            `Value must be greater than or equal to ${ bound.label }`,
+            ( scope ) => ( { code: TimeStringIssueCode.TOO_SMALL, minimum: bound.value( scope ) } ),
+            rebuild,
+            bound.label
+        );
+    };
+
+    // Add maximum value validation with custom error message support
+    schema.max = function ( maxValue: number | string, params?: ErrorParamType ): S {
+        const bound = resolveBound( config, maxValue );
+        return createRefinementWithMessage(
+            config,
+            ( val, scope ) => val <= bound.value( scope ),
+            params,
+            `Value must be less than or equal to ${ bound.label }`,
+            ( scope ) => ( { code: TimeStringIssueCode.TOO_BIG, maximum: bound.value( scope ) } ),
+            rebuild,
+            bound.label
+        );
+    };
+
+    // Add exclusive minimum validation with custom error message support
+    schema.gt = function ( minValue: number | string, params?: ErrorParamType ): S {
+        const bound = resolveBound( config, minValue );
+        return createRefinementWithMessage(
+            config,
+            ( val, scope ) => val > bound.value( scope ),
+            params,
+            `Value must be greater than ${ bound.label }`,
+            ( scope ) => ( { code: TimeStringIssueCode.TOO_SMALL, minimum: bound.value( scope ), inclusive: false } ),
+            rebuild,
+            bound.label
+        );
+    };
+
+    // Add exclusive maximum validation with custom error message support
+    schema.lt = function ( maxValue: number | string, params?: ErrorParamType ): S {
+        const bound = resolveBound( config, maxValue );
+        return createRefinementWithMessage(
+            config,
+            ( val, scope ) => val < bound.value( scope ),
+            params,
+            `Value must be less than ${ bound.label }`,
+            ( scope ) => ( { code: TimeStringIssueCode.TOO_BIG, maximum: bound.value( scope ), inclusive: false } ),
+            rebuild,
+            bound.label
+        );
+    };
+
+    // Add nonnegative validation with custom error message support
+    schema.nonnegative = function ( params?: ErrorParamType ): S {
+        return createRefinementWithMessage(
+            config,
+            ( val ) => val >= 0,
+            params,
+            "Value must not be negative",
+            () => ( { code: TimeStringIssueCode.TOO_SMALL, minimum: 0 } ),
+            rebuild,
+            '0'
+        );
+    };
+
+    // Add nonpositive validation with custom error message support
+    schema.nonpositive = function ( params?: ErrorParamType ): S {
+        return createRefinementWithMessage(
+            config,
+            ( val ) => val <= 0,
+            params,
+            "Value must not be positive",
+            () => ( { code: TimeStringIssueCode.TOO_BIG, maximum: 0 } ),
+            rebuild,
+            '0'
+        );
+    };
+
+    // Add between validation, a minimum and a maximum sharing one message, with custom error message support
+    schema.between = function ( minValue: number | string, maxValue: number | string, params?: ErrorParamType ): S {
+        const { min, max } = resolveBoundPair( config, minValue, maxValue );
+        const defaultMessage = `Value must be between ${ min.label } and ${ max.label }`;
+        const describe = ( code: TimeStringIssueCode ) => ( scope: CheckScope ) => ( { code, minimum: min.value( scope ), maximum: max.value( scope ) } );
+
+        return createRefinementWithMessage(
+            config,
+            ( val, scope ) => val >= min.value( scope ),
+            params,
+            defaultMessage,
+            describe( TimeStringIssueCode.TOO_SMALL ),
+            ( next ) => createRefinementWithMessage(
+                next,
+                ( val, scope ) => val <= max.value( scope ),
+                params,
+                defaultMessage,
+                describe( TimeStringIssueCode.TOO_BIG ),
+                rebuild,
+                max.label
+            ),
+            min.label
+        );
+    };
+
+    // Add clamp method to create a schema that moves values within the bounds
+    schema.clamp = function ( minValue: number | string, maxValue: number | string ): S {
+        return rebuild( { ...config, clamp: resolveBoundPair( config, minValue, maxValue ) } );
+    };
+
+    // Add multipleOf validation with custom error message support
+    schema.multipleOf = function ( step: number | string, params?: ErrorParamType ): S {
+        const bound = resolveStep( config, step );
+        return createRefinementWithMessage(
+            config,
+            ( val, scope ) => isMultipleOf( val, bound.value( scope ) ),
+            params,
+            `Value must be a multiple of ${ bound.label }`,
+            ( scope ) => ( { code: TimeStringIssueCode.NOT_MULTIPLE_OF, step: bound.value( scope ) } ),
+            rebuild,
+            bound.label
+        );
+    };
+
+    // Add granularity validation, a multiple of one unit, with custom error message support
+    schema.granularity = function ( unit: string, params?: ErrorParamType ): S {
+        const definition = config.units[ unit ];
+        if ( !definition ) {
+            throw new Error( `Unknown granularity time unit "${ unit }"` );
+        }
+
+        // The unit is read from the scope, so a later convention keeps applying to months and years
+        const step = ( scope: CheckScope ) => toNumber( divide( fromNumber( ( scope.units[ unit ] as TimeUnitDefinition ).ms ), scope.factor ) );
+        return createRefinementWithMessage(
+            config,
+            ( val, scope ) => isMultipleOf( val, step( scope ) ),
+            params,
+            `Value must be a whole number of ${ describeUnit( unit ) }`,
+            ( scope ) => ( { code: TimeStringIssueCode.NOT_MULTIPLE_OF, step: step( scope ) } ),
+            rebuild,
+            `1${ unit }`
+        );
+    };
+
+    // Add snap method to create a schema that rounds values to a whole number of steps
+    schema.snap = function ( step: number | string, rounding: TimeStringSnapRounding = 'round' ): S {
+        return rebuild( { ...config, snap: { ms: resolveStep( config, step ).ms, rounding } } );
+    };
+}
+
+// Function to add chainable methods to the schema with improved typing
+function createTimeStringSchema( schema: z.ZodType<number>, config: TimeStringConfig ): TimeStringSchema {
+    const newSchema = schema as TimeStringSchema;
 
-// Options for the time string schema
-export interface TimeStringOptions {
-    invalidFormatError?: ErrorParamType;
-    invalidValueError?: ErrorParamType;
-    invalidUnitError?: ErrorParamType;
-}
-
-export const TimeUnit = {
-    MILLISECOND: 'ms',
-    SECOND: 's',
-    MINUTE: 'm',
-    HOUR: 'h',
-    DAY: 'd',
-    MONTH: 'mo',
-    YEAR: 'y',
-} as const;
-
-export type TimeUnit = ( typeof TimeUnit )[keyof typeof TimeUnit];
-
-const TIME_UNIT_TO_MS: Record<TimeUnit, number> = {
-    [ TimeUnit.MILLISECOND ]: 1,
-    [ TimeUnit.SECOND ]: 1000,
-    [ TimeUnit.MINUTE ]: 60 * 1000,
-    [ TimeUnit.HOUR ]: 60 * 60 * 1000,
-    [ TimeUnit.DAY ]: 24 * 60 * 60 * 1000,
-    [ TimeUnit.MONTH ]: 30 * 24 * 60 * 60 * 1000,
-    [ TimeUnit.YEAR ]: 365 * 24 * 60 * 60 * 1000,
-};
+    // Expose the active month/year convention
+    ( newSchema as { convention: ActiveMonthYearConvention } ).convention = config.convention;
 
-const TIME_UNIT_PATTERNS = {
-    [ TimeUnit.MILLISECOND ]: 'milliseconds?|millisecond?|msecs?|msec?|ms',
-    [ TimeUnit.SECOND ]: 'seconds?|second?|secs?|sec?|s',
-    [ TimeUnit.MINUTE ]: 'minutes?|minute?|mins?|min?|m',
-    [ TimeUnit.HOUR ]: 'hours?|hour?|hrs?|hr?|h',
-    [ TimeUnit.DAY ]: 'days?|day?|d',
-    [ TimeUnit.MONTH ]: 'months?|month?|mo|mth',
-    [ TimeUnit.YEAR ]: 'years?|year?|yrs?|yr?|y',
-};
+    addCheckMethods( newSchema, config, buildTimeStringSchema );
 
-// Pre-compile regex patterns for better performance
-const TIME_UNIT_REGEX_MAP: Record<TimeUnit, RegExp> = ( () => {
-    const map: Record<string, RegExp> = {};
-    const timeUnitKeys = Object.keys( TIME_UNIT_PATTERNS ) as TimeUnit[];
-    for ( const unit of timeUnitKeys ) {
-        map[ unit ] = new RegExp( `^(${TIME_UNIT_PATTERNS[unit]})$`, 'i' );
-    }
-    return map as Record<TimeUnit, RegExp>;
-} )();
+    // Add withErrorMessages method to create a new schema with custom error messages
+    newSchema.withErrorMessages = function ( customOptions: TimeStringOptions ) {
+        return buildTimeStringSchema( { ...config, options: { ...config.options, ...customOptions } } );
+    };
+
+    // Add in method to create a new schema that outputs the given unit
+    newSchema.in = function ( unit: string, rounding: TimeStringRounding = config.rounding ) {
+        if ( !config.units[ unit ] ) {
+            throw new Error( `Unknown output time unit "${ unit }"` );
+        }
+        return buildTimeStringSchema( { ...config, unit, rounding } );
+    };
 
-const VALUE_PATTERN = '(-?(?:\\d+)?\\.?\\d+)';
-// Use Object.keys instead of Object.values for ES2015 compatibility
-const UNITS_PATTERN = Object.keys( TIME_UNIT_PATTERNS ).map( key => TIME_UNIT_PATTERNS[ key as TimeUnit ] ).join( '|' );
-const FULL_PATTERN = new RegExp( `^\\s*${VALUE_PATTERN}\\s*(${UNITS_PATTERN})?\\s*$`, 'i' );
-const POSSIBLE_UNIT_PATTERN = new RegExp( `^(-?(?:\\d+)?\\.?\\d+)\\s*([a-zA-Z]+)$` );
+    // Add rounding method to create a new schema with a different rounding policy
+    newSchema.rounding = function ( rounding: TimeStringRounding ) {
+        return buildTimeStringSchema( { ...config, rounding } );
+    };
 
-function getTimeUnit( unitStr: string ): TimeUnit | null {
-    const lowerUnit = unitStr.toLowerCase();
-    const timeUnitKeys = Object.keys( TIME_UNIT_PATTERNS ) as TimeUnit[];
+    // Add bigint method to create an exact bigint variant of the schema
+    newSchema.bigint = function () {
+        return createBaseTimeStringSchema( config, toBigIntOutput, describeBigIntOutput );
+    };
 
-    for ( const unit of timeUnitKeys ) {
-        if ( TIME_UNIT_REGEX_MAP[ unit ].test( lowerUnit ) ) {
-            return unit;
+    // Add codec method to create a schema that also encodes numbers back into time strings
+    newSchema.codec = function ( codecOptions: TimeStringCodecOptions = {} ) {
+        const { encodeAs = 'compound', ...formatOptions } = codecOptions;
+        if ( encodeAs !== 'compound' && !DEFAULT_TIME_UNITS[ encodeAs ] ) {
+            throw new Error( `Unknown encoding time unit "${ encodeAs }"` );
         }
-    }
 
-    return null;
-}
+        const decoder = this;
+        const factor = fromNumber( ( config.units[ config.unit ] as TimeUnitDefinition ).ms );
+        // Compound strings stick to the allowed units, so they decode again
+        const allowed = ( config.allowedUnits || [] ).filter( ( unit ): unit is TimeUnit => !!DEFAULT_TIME_UNITS[ unit ] );
+        const units = encodeAs !== 'compound' ? { units: [ encodeAs ] } : allowed.length > 0 ? { units: allowed } : {};
 
-// Improved type definition for TimeStringSchema with proper generics
-export interface TimeStringSchema extends z.ZodType<number> {
-    positive( params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): TimeStringSchema;
+        const codec = z.codec( z.string(), z.number(), {
+            decode: ( input, payload ) => {
+                const result = decoder.safeParse( input );
+                if ( !result.success ) {
+                    payload.issues.push( ...( result.error.issues as z.core.$ZodRawIssue[] ) );
+                    return z.NEVER;
+                }
+                return result.data;
+            },
+            encode: ( value ) => config.format(
+                toNumber( multiply( fromNumber( value ), factor ) ),
+                { ...formatOptions, ...units, convention: config.convention }
+            ),
+        } );
 
-    negative( params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): TimeStringSchema;
+        // The codec reads text only, so its input is the grammar without numbers
+        const { grammar } = config;
+        setTimeStringJsonSchema(
+            codec,
+            config,
+            grammar.examples( config ),
+            ( examples ) => describeTimeStringInput( grammar.pattern( config ), grammar.description( config ), examples, null ),
+            ( bounds, outputs ) => describeNumberOutput( config, bounds, outputs )
+        );
+        return codec;
+    };
 
-    min( minValue: number, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): TimeStringSchema;
+    // Add relativeTo method to create a schema that counts months and years on the calendar
+    newSchema.relativeTo = function ( anchor: TimeStringAnchor, relativeOptions?: { output: 'date' } ) {
+        if ( typeof anchor !== 'function' ) {
+            readAnchor( anchor );
+        }
 
-    max( maxValue: number, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): TimeStringSchema;
+        if ( relativeOptions?.output === 'date' ) {
+            return createBaseTimeStringSchema( { ...config, anchor, unit: TimeUnit.MILLISECOND }, toDateOutput, describeDateOutput );
+        }
+        return buildTimeStringSchema( { ...config, anchor } );
+    } as TimeStringSchema[ 'relativeTo' ];
 
-    /**
-     * Creates a new TimeStringSchema with custom error messages
-     */
-    withErrorMessages( options: TimeStringOptions ): TimeStringSchema;
+    // Add fromNow method to create a schema for times relative to the clock
+    newSchema.fromNow = function ( relativeOptions: RelativeTimeOptions = {} ) {
+        const { clock } = relativeOptions;
+        if ( clock !== undefined && typeof clock !== 'function' ) {
+            readAnchor( clock );
+        }
+        return buildRelativeTimeSchema( config, relativeOptions );
+    } as TimeStringSchema[ 'fromNow' ];
+
+    // Add detailed method to create a schema that outputs a structured duration
+    newSchema.detailed = function () {
+        return buildDetailedTimeStringSchema( config );
+    };
+
+    // Add range method to create a schema for a lower and an upper bound
+    newSchema.range = function () {
+        return buildTimeStringRangeSchema( config );
+    };
+
+    // Add strict method to create a schema that requires a unit on every number
+    newSchema.strict = function () {
+        return buildTimeStringSchema( { ...config, unitless: null } );
+    };
+
+    // Add defaultUnit method to create a schema that reads bare numbers in another unit
+    newSchema.defaultUnit = function ( unit: string ) {
+        if ( !config.units[ unit ] ) {
+            throw new Error( `Unknown default time unit "${ unit }"` );
+        }
+        return buildTimeStringSchema( { ...config, unitless: unit } );
+    };
+
+    // Add units method to create a schema that only accepts some units
+    newSchema.units = function ( allowed: readonly string[] ) {
+        if ( allowed.length === 0 ) {
+            throw new Error( 'At least one time unit must be allowed' );
+        }
+        for ( const unit of allowed ) {
+            if ( !config.units[ unit ] ) {
+                throw new Error( `Unknown allowed time unit "${ unit }"` );
+            }
+        }
+        return buildTimeStringSchema( { ...config, allowedUnits: allowed.slice() } );
+    };
+
+    // Add acceptNumbers method to create a schema that also accepts numeric input
+    newSchema.acceptNumbers = function ( unit: string = config.unitless === null ? TimeUnit.MILLISECOND : config.unitless ) {
+        if ( !config.units[ unit ] ) {
+            throw new Error( `Unknown number time unit "${ unit }"` );
+        }
+        return buildTimeStringSchema( { ...config, numberUnit: unit } );
+    };
+
+    // Add withConvention method to create a schema with different month and year lengths
+    newSchema.withConvention = function ( option: MonthYearConventionOption ) {
+        const convention = Object.freeze( resolveMonthYearConvention( option ) );
+        return buildTimeStringSchema( { ...config, units: applyMonthYearConvention( config.units, convention ), convention } );
+    };
+
+    return newSchema;
+}
+
+// Builds a detailed schema with the validation methods, which check the total in the output unit
+function buildDetailedTimeStringSchema( config: TimeStringConfig ): DetailedTimeStringSchema {
+    const schema: z.ZodType<TimeStringDuration> = createBaseTimeStringSchema( config, toDurationOutput, describeDurationOutput );
+    const newSchema = schema as DetailedTimeStringSchema;
+    addCheckMethods( newSchema, config, buildDetailedTimeStringSchema );
+    return newSchema;
+}
+
+// Words and symbols that may separate the ends of a range
+const RANGE_SEPARATORS = [ '..', '-', 'to' ];
+
+// Where a range splits: both ends as written, and where the end starts in the input
+interface TimeStringRangeSplit {
+    start: string;
+    end: string;
+    endOffset: number;
+}
+
+function isRangeSpace( char: string | undefined ): boolean {
+    return char !== undefined && char.trim() === '';
 }
 
 /**
- * Creates a base time string schema with optional custom error messages
- */
-/**
- * Helper function to resolve error messages from various formats
+ * Finds where a range splits into its ends: the first separator with a valid time string on both sides,
+ * or else the first separator, so that the failing end can be reported.
+ * Separators are found in one pass, and each end is parsed only as far as its first error, with the end
+ * checked before the start, so input with many separators takes linear rather than quadratic time.
  */
-function resolveErrorMessage(
-    errorOption: ErrorParamType,
-    defaultMessage: string,
-    invalidValue: string
-): string {
-    if ( !errorOption ) return defaultMessage;
+function splitRange( input: string, parse: TimeStringParser ): TimeStringRangeSplit | null {
+    const lower = input.toLowerCase();
+    let first = 0;
+    while ( isRangeSpace( input[ first ] ) ) first++;
+    let last = input.length;
+    while ( last > first && isRangeSpace( input[ last - 1 ] ) ) last--;
 
-    if ( typeof errorOption === 'string' ) return errorOption;
-    if ( typeof errorOption === 'function' ) return errorOption( invalidValue );
+    let fallback: TimeStringRangeSplit | null = null;
+    for ( let i = 1; i < input.length; i++ ) {
+        const separator = RANGE_SEPARATORS.find( ( candidate ) => lower.startsWith( candidate, i ) );
+        if ( separator === undefined ) continue;
 
-    const { message } = errorOption;
-    return typeof message === 'function' ? message( invalidValue ) : message;
-}
+        const endOffset = i + separator.length;
+        fallback = fallback || { start: input.slice( 0, i ), end: input.slice( endOffset ), endOffset };
 
-// Helper function to create an issue in the validation context
-function createIssue( v: any, message: string, input: string ) {
-    v.issues.push( {
-        code: 'invalid_format',
-        format: 'regex',
-        message,
-        input,
-    } );
+        let endFrom = endOffset;
+        while ( endFrom < last && isRangeSpace( input[ endFrom ] ) ) endFrom++;
+        if ( !parse( input.slice( endFrom, last ) ).success ) continue;
+
+        let startTo = i;
+        while ( startTo > first && isRangeSpace( input[ startTo - 1 ] ) ) startTo--;
+        if ( parse( input.slice( first, startTo ) ).success ) {
+            return { start: input.slice( 0, i ), end: input.slice( endOffset ), endOffset };
+        }
+    }
+
+    return fallback;
 }
 
-function createBaseTimeStringSchema( options?: TimeStringOptions ) {
-    return z
-        .string()
-        .check( ( v ) => {
-            const value = v.value.trim();
-            v.value = value;
+// Builds a range schema whose ends are parsed and checked like the schema's own values
+function buildTimeStringRangeSchema( config: TimeStringConfig ): TimeStringRangeSchema {
+    const { options } = config;
+    const endSchema = createBaseTimeStringSchema( config, toNumberOutput, describeNumberOutput );
 
-            const match = FULL_PATTERN.exec( value );
-            if ( !match ) {
-                // Check if the value matches a pattern that might be a valid number with an invalid unit
-                const possibleUnitMatch = POSSIBLE_UNIT_PATTERN.exec( value );
-
-                if ( possibleUnitMatch && options?.invalidUnitError ) {
-                    // This looks like a valid number with an invalid unit
-                    const [ , , unitStr ] = possibleUnitMatch;
-                    // Handle unitStr being potentially undefined in a type-safe way
-                    const unitString = unitStr || '';
-                    const message = resolveErrorMessage(
-                        options.invalidUnitError,
-                        `Invalid time unit: ${ unitString }`,
-                        unitString
-                    );
+    // Reads one end, reporting its issues under the end's path with offsets into the whole input
+    const readEnd = ( text: string, offset: number, key: 'min' | 'max', ctx: z.core.$RefinementCtx<string> ): number | undefined => {
+        const result = endSchema.safeParse( text );
+        if ( result.success ) return result.data;
 
-                    createIssue( v, message, value );
-                    return;
-                } else {
-                    // Regular format error
-                    const message = resolveErrorMessage(
-                        options?.invalidFormatError,
-                        `Invalid time format: ${ value }`,
-                        value
-                    );
+        for ( const issue of result.error.issues as TimeStringIssue[] ) {
+            const { params } = issue;
+            ctx.addIssue( {
+                ...issue,
+                path: [ key ],
+                params: params.offset === undefined ? params : { ...params, offset: params.offset + offset },
+            } );
+        }
+        return undefined;
+    };
 
-                    createIssue( v, message, value );
-                    return;
-                }
-            }
+    const pipe = z
+        .string()
+        .transform( ( input, ctx ) => {
+            const value = input.trim();
+            const leading = input.length - input.replace( /^\s+/, '' ).length;
 
-            const [ , valueStr, unitStr ] = match;
-            if ( !valueStr ) {
-                const message = resolveErrorMessage(
-                    options?.invalidValueError,
-                    `Invalid time value: ${ value }`,
-                    value
-                );
+            // Adds an issue whose default message follows the schema's locales
+            const report = ( params: TimeStringIssueParams, message: string | undefined, defaultMessage: string ) => {
+                createIssue( ctx, input, params, message, localizeMessage( config.messages, params, value, defaultMessage ) );
+            };
 
-                createIssue( v, message, value );
-                return;
+            const split = splitRange( input, config.parse );
+            if ( !split ) {
+                report(
+                    { code: TimeStringIssueCode.INVALID_FORMAT, segment: value, offset: leading },
+                    resolveErrorMessage( options?.invalidFormatError, value ),
+                    `Invalid time range: ${ value }`
+                );
+                return z.NEVER;
             }
 
-            const numValue = parseFloat( valueStr );
+            const min = readEnd( split.start, 0, 'min', ctx );
+            const max = readEnd( split.end, split.endOffset, 'max', ctx );
+            if ( min === undefined || max === undefined ) return z.NEVER;
 
-            // if no unit was provided, we assume it's in milliseconds
-            if ( !unitStr ) {
-                v.value = numValue.toString();
-                return;
+            if ( min > max ) {
+                report(
+                    { code: TimeStringIssueCode.INVALID_RANGE, segment: value, offset: leading, minimum: min, maximum: max },
+                    resolveErrorMessage( options?.invalidRangeError, value ),
+                    `Range start ${ split.start.trim() } is greater than its end ${ split.end.trim() }`
+                );
+                return z.NEVER;
             }
 
-            const unit = getTimeUnit( unitStr );
-            if ( !unit ) {
-                const message = resolveErrorMessage(
-                    options?.invalidUnitError,
-                    `Invalid time unit: ${ unitStr }`,
-                    unitStr
-                );
+            return { min, max };
+        } );
 
-                createIssue( v, message, value );
-                return;
-            }
+    const { grammar } = config;
+    const ends = grammar.examples( config );
+    const separators = RANGE_SEPARATORS.map( caseInsensitiveSource ).join( '|' );
+    const end = grammar.pattern( config );
+    const candidates: string[] = [];
+    ends.forEach( ( start ) => ends.forEach( ( last ) => {
+        if ( start !== last ) candidates.push( `${ start } to ${ last }` );
+    } ) );
+    setTimeStringJsonSchema(
+        pipe,
+        config,
+        candidates,
+        ( examples ) => describeTimeStringInput(
+            `(?:${ end })\\s*(?:${ separators })\\s*(?:${ end })`,
+            `Range of two durations joined by "..", "-" or "to". Each end: ${ grammar.description( config ) }`,
+            examples,
+            null
+        ),
+        ( bounds, outputs ) => {
+            const endOutput = describeNumberOutput( config, bounds, [] );
+            return {
+                type: 'object',
+                properties: { min: endOutput, max: endOutput },
+                required: [ 'min', 'max' ],
+                ...( outputs.length > 0 ? { examples: outputs } : {} ),
+            };
+        }
+    );
 
-            const ms = numValue * TIME_UNIT_TO_MS[ unit ];
-            v.value = ms.toString();
-        } )
-        .transform( ( v ) => parseInt( v ) );
+    const schema: z.ZodType<TimeStringRange> = pipe;
+    const newSchema = schema as TimeStringRangeSchema;
+    addCheckMethods( newSchema, config, buildTimeStringRangeSchema );
+    return newSchema;
 }
 
-// Base schema without the chainable methods
-const baseTimeStringSchema = createBaseTimeStringSchema();
+const RELATIVE_NOW_PATTERN = /^now(?:\s*([+-])\s*(.*))?$/i;
+const RELATIVE_IN_PATTERN = /^in\s+(.*)$/i;
+const RELATIVE_AGO_PATTERN = /^(.*\S)\s+ago$/i;
 
-// Helper function for consistent refinement logic with error messages
-function createRefinementWithMessage(
-    schema: TimeStringSchema,
-    checkFn: ( val: number ) => boolean,
-    params: ErrorParamType,
-    defaultMessage: string
-): TimeStringSchema {
-    // Extract message and customMessageFn
-    let message = defaultMessage;
-    let customMessageFn = undefined;
-
-    if ( typeof params === 'string' ) {
-        message = params;
-    } else if ( typeof params === 'function' ) {
-        customMessageFn = params;
-    } else if ( params?.message ) {
-        if ( typeof params.message === 'function' ) {
-            customMessageFn = params.message;
+/**
+ * Wraps a duration parser to read "now", "now+2h", "now-1d", "in 5 minutes" and "5m ago",
+ * negating the duration for times in the past
+ */
+function createRelativeTimeParser( parse: TimeStringParser ): TimeStringParser {
+    return ( input ) => {
+        let duration: string;
+        let offset: number;
+        let negative = false;
+
+        const now = RELATIVE_NOW_PATTERN.exec( input );
+        const later = now ? null : RELATIVE_IN_PATTERN.exec( input );
+        const ago = now || later ? null : RELATIVE_AGO_PATTERN.exec( input );
+        if ( now ) {
+            if ( !now[ 1 ] ) {
+                return { success: true, segments: [] };
+            }
+            duration = now[ 2 ] as string;
+            offset = input.length - duration.length;
+            negative = now[ 1 ] === '-';
+        } else if ( later ) {
+            duration = later[ 1 ] as string;
+            offset = input.length - duration.length;
+        } else if ( ago ) {
+            duration = ago[ 1 ] as string;
+            offset = 0;
+            negative = true;
         } else {
-            message = params.message;
+            return { success: false, kind: 'format', segment: input, offset: 0 };
         }
-    }
 
-    // Create refinement with appropriate options
-    return createTimeStringSchema(
-        schema.refine( checkFn, {
-            message,
-            path: [],
-            ...( customMessageFn ? { params: { customMessageFn } } : {} )
-        } )
-    );
+        const result = parse( duration );
+        if ( !result.success ) {
+            return { ...result, offset: result.offset + offset };
+        }
+        return {
+            success: true,
+            segments: result.segments.map( ( segment ) => ( {
+                ...segment,
+                value: negative ? negateValue( segment.value ) : segment.value,
+                offset: segment.offset + offset,
+            } ) ),
+        };
+    };
 }
 
-// Function to add chainable methods to the schema with improved typing
-function createTimeStringSchema( schema: z.ZodType<number>, options?: TimeStringOptions ): TimeStringSchema {
-    const newSchema = schema as TimeStringSchema;
+// Describes relative times for JSON Schema by wrapping the duration grammar the way the parser does
+function describeRelativeGrammar( grammar: TimeStringGrammarDescription ): TimeStringGrammarDescription {
+    return {
+        pattern: ( config ) => {
+            const duration = `(?:${ grammar.pattern( config ) })`;
+            return `[nN][oO][wW](?:\\s*[+-]\\s*${ duration })?|[iI][nN]\\s+${ duration }|${ duration }\\s+[aA][gG][oO]`;
+        },
+        description: ( config ) => `Time relative to now, written as "now", "now+D", "now-D", "in D" or "D ago". D: ${ grammar.description( config ) }`,
+        examples: ( config ) => grammar.examples( config )
+            .map( ( example, i ) => i % 2 === 0 ? `in ${ example }` : `${ example } ago` )
+            .concat( [ 'now' ] ),
+    };
+}
 
-    // Add positive validation with custom error message support
-    newSchema.positive = function ( params?: ErrorParamType ): TimeStringSchema {
+// Builds a relative time schema; the state keeps the duration grammar so that chained checks can rebuild it
+function buildRelativeTimeSchema<T>( config: TimeStringConfig, relativeOptions: RelativeTimeOptions ): RelativeTimeSchema<T> {
+    const { clock = () => Date.now(), output = 'date' } = relativeOptions;
+    const relativeConfig = {
+        ...config,
+        parse: createRelativeTimeParser( config.parse ),
+        grammar: describeRelativeGrammar( config.grammar ),
+        anchor: clock,
+        unit: TimeUnit.MILLISECOND,
+    };
+    const schema = output === 'ms'
+        ? createBaseTimeStringSchema( relativeConfig, toTimestampOutput, describeTimestampOutput )
+        : createBaseTimeStringSchema( relativeConfig, toDateOutput, describeDateOutput );
+
+    const newSchema = schema as unknown as RelativeTimeSchema<T>;
+    const rebuild = ( next: TimeStringConfig ) => buildRelativeTimeSchema<T>( next, relativeOptions );
+    addCheckMethods( newSchema, config, rebuild );
+
+    // Add future validation with custom error message support
+    newSchema.future = function ( params?: ErrorParamType ) {
         return createRefinementWithMessage(
-            this,
+            config,
             ( val ) => val > 0,
             params,
-            "Value must be positive"
+            "Time must be in the future",
+            () => ( { code: TimeStringIssueCode.NOT_FUTURE } ),
+            rebuild
         );
     };
 
-    // Add negative validation with custom error message support
-    newSchema.negative = function ( params?: ErrorParamType ): TimeStringSchema {
+    // Add past validation with custom error message support
+    newSchema.past = function ( params?: ErrorParamType ) {
         return createRefinementWithMessage(
-            this,
+            config,
             ( val ) => val < 0,
             params,
-            "Value must be negative"
+            "Time must be in the past",
+            () => ( { code: TimeStringIssueCode.NOT_PAST } ),
+            rebuild
         );
     };
 
-    // Add minimum value validation with custom error message support
-    newSchema.min = function ( minValue: number, params?: ErrorParamType ): TimeStringSchema {
-        return createRefinementWithMessage(
-            this,
-            ( val ) => val >= minValue,
-            params,
-            `Value must be greater than or equal to ${ minValue }`
+    return newSchema;
+}
+
+function buildTimeStringSchema( config: TimeStringConfig ): TimeStringSchema {
+    return createTimeStringSchema( createBaseTimeStringSchema( config, toNumberOutput, describeNumberOutput ), config );
+}
+
+// Options for building a time string schema with its own unit table
+export interface CreateTimeStringOptions extends TimeStringOptions {
+    // Units added to, or replacing, the built-in table
+    units?: TimeUnitTable;
+    // Month and year lengths, as a named convention or explicit lengths; takes precedence over custom "mo" and "y" units
+    convention?: MonthYearConventionOption;
+    // Reject bare numbers instead of reading them as the default unit
+    strict?: boolean;
+    // Unit for bare numbers (defaults to milliseconds)
+    defaultUnit?: string;
+    // Also accept finite numbers, read in the given unit or, when true, like bare numbers
+    acceptNumbers?: boolean | string;
+    // Locales whose unit names, decimal commas and default messages the schema uses
+    locale?: TimeStringLocaleOption;
+}
+
+// Reads the month/year convention a unit table already uses
+function detectMonthYearConvention( units: TimeUnitTable ): ActiveMonthYearConvention {
+    const month = ( units[ TimeUnit.MONTH ] as TimeUnitDefinition ).ms;
+    const year = ( units[ TimeUnit.YEAR ] as TimeUnitDefinition ).ms;
+    const isDefault = month === MONTH_YEAR_CONVENTIONS.default.month && year === MONTH_YEAR_CONVENTIONS.default.year;
+    return Object.freeze( { name: isDefault ? 'default' : 'custom', month, year } );
+}
+
+/**
+ * Creates a time string schema that understands the built-in units plus any custom units.
+ * Throws when the resulting unit table is invalid, e.g. when two units share an alias.
+ */
+export function createTimeString( options: CreateTimeStringOptions = {} ): TimeStringSchema {
+    const {
+        units: customUnits,
+        convention: conventionOption,
+        strict = false,
+        defaultUnit = TimeUnit.MILLISECOND,
+        acceptNumbers = false,
+        locale,
+        ...errorOptions
+    } = options;
+    let units = { ...DEFAULT_TIME_UNITS, ...customUnits };
+    const locales = locale === undefined ? undefined : resolveTimeStringLocales( locale );
+    if ( locales ) {
+        // Locale spellings are added to the units the table has
+        for ( const unit of Object.keys( locales.units ) ) {
+            const definition = units[ unit ];
+            if ( definition ) {
+                units[ unit ] = { ...definition, aliases: definition.aliases.concat( locales.units[ unit ] as string[] ) };
+            }
+        }
+    }
+    const convention = conventionOption
+        ? Object.freeze( resolveMonthYearConvention( conventionOption ) )
+        : detectMonthYearConvention( units );
+    units = applyMonthYearConvention( units, convention );
+    if ( !units[ defaultUnit ] ) {
+        throw new Error( `Unknown default time unit "${ defaultUnit }"` );
+    }
+    const numberUnit = acceptNumbers === true ? ( strict ? TimeUnit.MILLISECOND : defaultUnit ) : acceptNumbers || null;
+    if ( numberUnit !== null && !units[ numberUnit ] ) {
+        throw new Error( `Unknown number time unit "${ numberUnit }"` );
+    }
+
+    const compiled = compileTimeUnits( units, locales || {} );
+    return buildTimeStringSchema( {
+        parse: createTimeStringParser( compiled ),
+        format: formatTimeString,
+        grammar: describeTimeStringGrammar( compiled, locales || {} ),
+        units,
+        convention,
+        options: errorOptions,
+        unit: TimeUnit.MILLISECOND,
+        rounding: 'trunc',
+        unitless: strict ? null : defaultUnit,
+        numberUnit,
+        checks: [],
+        messages: locales?.messages,
+    } );
+}
+
+// Export the enhanced schema with chainable methods
+export const zodTimeString = createTimeString();
+
+// Options for building a clock duration schema
+export interface CreateClockDurationOptions extends TimeStringOptions {
+    // How to read a value with two fields such as "90:00" (defaults to minutes and seconds)
+    twoPart?: ClockTwoPartFormat;
+}
+
+/**
+ * Creates a schema for clock durations ("01:30:00", "1:02:03.500", "90:00") with the same chainable methods.
+ * Throws for an unknown two-part format.
+ */
+export function createClockDuration( options: CreateClockDurationOptions = {} ): TimeStringSchema {
+    const { twoPart = 'mm:ss', ...errorOptions } = options;
+    if ( twoPart !== 'mm:ss' && twoPart !== 'hh:mm' ) {
+        throw new Error( `Unknown two-part clock format "${ twoPart }"` );
+    }
+
+    return buildTimeStringSchema( {
+        parse: createClockParser( twoPart ),
+        format: formatClockDuration,
+        grammar: describeClockGrammar( twoPart ),
+        units: DEFAULT_TIME_UNITS,
+        convention: detectMonthYearConvention( DEFAULT_TIME_UNITS ),
+        options: errorOptions,
+        unit: TimeUnit.MILLISECOND,
+        rounding: 'trunc',
+        unitless: TimeUnit.MILLISECOND,
+        numberUnit: null,
+        checks: [],
+    } );
+}
+
+// Sibling schema for clock durations, reading two fields as minutes and seconds
+export const zodClockDuration = createClockDuration();
+
+// Sibling schema for ISO 8601 durations ("PT1H30M", "P3DT4H", "P2W") with the same chainable methods
+export const zodIsoDuration = buildTimeStringSchema( {
+    parse: parseIsoDuration,
+    format: formatIsoDuration,
+    grammar: ISO_DURATION_GRAMMAR,
+    units: DEFAULT_TIME_UNITS,
+    convention: detectMonthYearConvention( DEFAULT_TIME_UNITS ),
+    unit: TimeUnit.MILLISECOND,
+    rounding: 'trunc',
+    unitless: TimeUnit.MILLISECOND,
+    numberUnit: null,
+    checks: [],
+} );
+
+// A time of day split into its fields on a 24-hour clock; seconds may carry a fraction
+export interface TimeOfDay {
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+// Bounds shared by time of day schemas, returning the same kind of schema
+export interface TimeOfDayChecks<Self> {
+    /**
+     * Accepts times at or after the given time, written in either form or as milliseconds since midnight
+     */
+    after( time: string | number, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+
+    /**
+     * Accepts times before the given time. A bound earlier than the after() bound makes a window that wraps past midnight.
+     */
+    before( time: string | number, params?: string | TimeStringErrorParams | ( ( invalid: string ) => string ) ): Self;
+}
+
+export interface TimeOfDaySchema extends z.ZodType<number>, TimeOfDayChecks<TimeOfDaySchema> {
+    /**
+     * Creates a new TimeOfDaySchema with custom error messages, merged into the ones already set
+     */
+    withErrorMessages( options: TimeStringOptions ): TimeOfDaySchema;
+
+    /**
+     * Creates a schema that outputs the hour, minute and second instead of milliseconds since midnight
+     */
+    parts(): TimeOfDayPartsSchema;
+}
+
+export interface TimeOfDayPartsSchema extends z.ZodType<TimeOfDay>, TimeOfDayChecks<TimeOfDayPartsSchema> {}
+
+// A bound of a time of day window, in milliseconds since midnight
+interface TimeOfDayBound {
+    ms: number;
+    label: string;
+    params: ErrorParamType;
+}
+
+// Immutable time of day schema state, copied with one setting changed by every chain method
+interface TimeOfDayConfig {
+    options?: TimeStringOptions | undefined;
+    after?: TimeOfDayBound | undefined;
+    before?: TimeOfDayBound | undefined;
+}
+
+type TimeOfDayParseResult =
+    | { success: true; ms: number; parts: TimeOfDay }
+    | { success: false; kind: 'format' | 'value' };
+
+const TIME_OF_DAY_24H_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?$/;
+const TIME_OF_DAY_12H_PATTERN = /^(\d{1,2})(?::(\d{2})(?::(\d{2}(?:\.\d+)?))?)?\s*([ap])\.?m\.?$/i;
+
+/**
+ * Parses a 24-hour time ("14:30", "09:00:15.5") or a 12-hour time with am/pm ("2:30 pm", "2pm", "12:00 a.m.")
+ */
+function parseTimeOfDay( input: string ): TimeOfDayParseResult {
+    const match24 = TIME_OF_DAY_24H_PATTERN.exec( input );
+    const match12 = match24 ? null : TIME_OF_DAY_12H_PATTERN.exec( input );
+    const match = match24 || match12;
+    if ( !match ) {
+        return { success: false, kind: 'format' };
+    }
+
+    const [ , hourStr = '', minuteStr = '0', secondStr = '0', meridiem ] = match;
+    let hour = parseInt( hourStr, 10 );
+    const minute = parseInt( minuteStr, 10 );
+    const second = parseDecimal( secondStr ) as Fraction;
+    if ( minute >= 60 || compare( second, fromNumber( 60 ) ) >= 0 ) {
+        return { success: false, kind: 'value' };
+    }
+
+    if ( meridiem ) {
+        // 12 am is midnight and 12 pm is noon
+        if ( hour < 1 || hour > 12 ) {
+            return { success: false, kind: 'value' };
+        }
+        hour = hour % 12 + ( meridiem.toLowerCase() === 'p' ? 12 : 0 );
+    } else if ( hour > 23 ) {
+        return { success: false, kind: 'value' };
+    }
+
+    const ms = add( fromNumber( hour * 3600000 + minute * 60000 ), multiply( second, fromNumber( 1000 ) ) );
+    return { success: true, ms: toNumber( ms ), parts: { hour, minute, second: toNumber( second ) } };
+}
+
+/**
+ * Resolves a window bound given as a time of day or as milliseconds since midnight.
+ * Throws when it cannot be read, so mistakes surface when the schema is built.
+ */
+function resolveTimeOfDayBound( time: string | number, params: ErrorParamType ): TimeOfDayBound {
+    if ( typeof time === 'number' ) {
+        if ( !( time >= 0 && time < DAY_MS ) ) {
+            throw new Error( `Time of day bound must be between 0 and ${ DAY_MS } milliseconds: ${ time }` );
+        }
+        return { ms: time, label: formatClockDuration( time ), params };
+    }
+
+    const label = time.trim();
+    const result = parseTimeOfDay( label );
+    if ( !result.success ) {
+        throw new Error( `Invalid time of day bound: "${ time }"` );
+    }
+    return { ms: result.ms, label, params };
+}
+
+// Adds the issues for a time of day outside the schema's window, returning whether it passed
+function checkTimeOfDayWindow( ctx: unknown, input: string, ms: number, config: TimeOfDayConfig ): boolean {
+    const { after, before } = config;
+
+    // A window that ends earlier in the day than it starts runs from the start, past midnight, to the end
+    if ( after && before && after.ms > before.ms ) {
+        if ( ms >= after.ms || ms < before.ms ) return true;
+
+        createIssue(
+            ctx,
+            input,
+            { code: TimeStringIssueCode.OUTSIDE_WINDOW, value: ms, minimum: after.ms, maximum: before.ms },
+            resolveErrorMessage( after.params || before.params, input.trim() ),
+            `Time must be at or after ${ after.label } or before ${ before.label }`
         );
-    };
+        return false;
+    }
 
-    // Add maximum value validation with custom error message support
-    newSchema.max = function ( maxValue: number, params?: ErrorParamType ): TimeStringSchema {
-        return createRefinementWithMessage(
-            this,
-            ( val ) => val <= maxValue,
-            params,
-            `Value must be less than or equal to ${ maxValue }`
+    let passed = true;
+    if ( after && ms < after.ms ) {
+        createIssue(
+            ctx,
+            input,
+            { code: TimeStringIssueCode.TOO_EARLY, value: ms, minimum: after.ms },
+            resolveErrorMessage( after.params, input.trim() ),
+            `Time must be at or after ${ after.label }`
+        );
+        passed = false;
+    }
+    if ( before && ms >= before.ms ) {
+        createIssue(
+            ctx,
+            input,
+            { code: TimeStringIssueCode.TOO_LATE, value: ms, maximum: before.ms },
+            resolveErrorMessage( before.params, input.trim() ),
+            `Time must be before ${ before.label }`
         );
+        passed = false;
+    }
+    return passed;
+}
+
+/**
+ * Creates a base time of day schema that reports failures with the same options and issue codes as time strings
+ */
+// Times of day in JSON Schema, with the same field limits as the parser
+const TIME_OF_DAY_GRAMMAR = {
+    pattern: [
+        '(?:[01]?\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?',
+        '(?:0?[1-9]|1[0-2])(?::[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?)?\\s*[aApP]\\.?[mM]\\.?',
+    ].join( '|' ),
+    description: 'Time of day written as HH:MM or HH:MM:SS on a 24-hour clock, or with am/pm, such as "14:30" or "2:30 pm"',
+    examples: [ '09:00', '14:30', '6:15 pm', '11:45 pm' ],
+};
+
+// Describes milliseconds since midnight, narrowed to the window unless it wraps past midnight
+function describeTimeOfDayOutput( config: TimeOfDayConfig, outputs: unknown[] ): JsonSchema {
+    const { after, before } = config;
+    const wraps = !!after && !!before && after.ms > before.ms;
+    return {
+        type: 'number',
+        description: 'Time of day in milliseconds since midnight',
+        minimum: after && !wraps ? after.ms : 0,
+        exclusiveMaximum: before && !wraps ? before.ms : DAY_MS,
+        ...( outputs.length > 0 ? { examples: outputs } : {} ),
+    };
+}
+
+function describeTimeOfDayPartsOutput( _: TimeOfDayConfig, outputs: unknown[] ): JsonSchema {
+    return {
+        type: 'object',
+        properties: {
+            hour: { type: 'integer', minimum: 0, maximum: 23 },
+            minute: { type: 'integer', minimum: 0, maximum: 59 },
+            second: { type: 'number', minimum: 0, exclusiveMaximum: 60 },
+        },
+        required: [ 'hour', 'minute', 'second' ],
+        ...( outputs.length > 0 ? { examples: outputs } : {} ),
+    };
+}
+
+function createBaseTimeOfDaySchema<T>(
+    config: TimeOfDayConfig,
+    convert: ( ms: number, parts: TimeOfDay ) => T,
+    describeOutput: ( config: TimeOfDayConfig, outputs: unknown[] ) => JsonSchema
+) {
+    const { options } = config;
+
+    const schema = z
+        .string()
+        .transform( ( input, ctx ) => {
+            const value = input.trim();
+            const leading = input.length - input.replace( /^\s+/, '' ).length;
+
+            const result = parseTimeOfDay( value );
+            if ( !result.success ) {
+                if ( result.kind === 'value' ) {
+                    createIssue(
+                        ctx,
+                        input,
+                        { code: TimeStringIssueCode.INVALID_VALUE, segment: value, offset: leading },
+                        resolveErrorMessage( options?.invalidValueError, value ),
+                        `Invalid time of day: ${ value }`
+                    );
+                    return z.NEVER;
+                }
+
+                createIssue(
+                    ctx,
+                    input,
+                    { code: TimeStringIssueCode.INVALID_FORMAT, segment: value, offset: leading },
+                    resolveErrorMessage( options?.invalidFormatError, value ),
+                    `Invalid time of day format: ${ value }`
+                );
+                return z.NEVER;
+            }
+
+            if ( !checkTimeOfDayWindow( ctx, input, result.ms, config ) ) return z.NEVER;
+
+            return convert( result.ms, result.parts );
+        } );
+
+    setJsonSchema(
+        schema,
+        TIME_OF_DAY_GRAMMAR.examples,
+        ( examples ) => describeTimeStringInput( TIME_OF_DAY_GRAMMAR.pattern, TIME_OF_DAY_GRAMMAR.description, examples, null ),
+        ( outputs ) => describeOutput( config, outputs )
+    );
+    return schema;
+}
+
+// Adds the window bounds to a time of day schema
+function addTimeOfDayChecks<S>( schema: TimeOfDayChecks<S>, config: TimeOfDayConfig, rebuild: ( config: TimeOfDayConfig ) => S ) {
+    // Add after method to create a schema with a window start
+    schema.after = function ( time: string | number, params?: ErrorParamType ): S {
+        return rebuild( { ...config, after: resolveTimeOfDayBound( time, params ) } );
+    };
+
+    // Add before method to create a schema with a window end
+    schema.before = function ( time: string | number, params?: ErrorParamType ): S {
+        return rebuild( { ...config, before: resolveTimeOfDayBound( time, params ) } );
     };
+}
+
+function buildTimeOfDayPartsSchema( config: TimeOfDayConfig ): TimeOfDayPartsSchema {
+    const schema: z.ZodType<TimeOfDay> = createBaseTimeOfDaySchema( config, ( _, parts ) => parts, describeTimeOfDayPartsOutput );
+    const newSchema = schema as TimeOfDayPartsSchema;
+    addTimeOfDayChecks( newSchema, config, buildTimeOfDayPartsSchema );
+    return newSchema;
+}
+
+function buildTimeOfDaySchema( config: TimeOfDayConfig ): TimeOfDaySchema {
+    const schema: z.ZodType<number> = createBaseTimeOfDaySchema( config, ( ms ) => ms, describeTimeOfDayOutput );
+    const newSchema = schema as TimeOfDaySchema;
+    addTimeOfDayChecks( newSchema, config, buildTimeOfDaySchema );
 
     // Add withErrorMessages method to create a new schema with custom error messages
     newSchema.withErrorMessages = function ( customOptions: TimeStringOptions ) {
-        return createTimeStringSchema( createBaseTimeStringSchema( customOptions ), customOptions );
+        return buildTimeOfDaySchema( { ...config, options: { ...config.options, ...customOptions } } );
+    };
+
+    // Add parts method to create a schema that outputs the fields of the time
+    newSchema.parts = function () {
+        return buildTimeOfDayPartsSchema( config );
     };
 
     return newSchema;
 }
 
-// Export the enhanced schema with chainable methods
-export const zodTimeString = createTimeStringSchema( baseTimeStringSchema );
\ No newline at end of file
+// Schema for times of day ("14:30", "2:30 pm", "09:00:15") that outputs milliseconds since midnight
+export const zodTimeOfDay = buildTimeOfDaySchema( {} );
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+// Reasons a time string can fail, reported as params.code on every issue
+export const TimeStringIssueCode = {
+    // The input cannot be split into segments
+    INVALID_FORMAT: 'invalid_format',
+    // A segment value is not a finite number
+    INVALID_VALUE: 'invalid_value',
+    // A segment unit is not in the unit table
+    INVALID_UNIT: 'invalid_unit',
+    // A bare number in strict mode
+    MISSING_UNIT: 'missing_unit',
+    // A unit outside the allowed set
+    UNIT_NOT_ALLOWED: 'unit_not_allowed',
+    // The result cannot be represented in the output type, e.g. beyond Number.MAX_SAFE_INTEGER
+    UNREPRESENTABLE: 'unrepresentable',
+    TOO_SMALL: 'too_small',
+    TOO_BIG: 'too_big',
+    NOT_POSITIVE: 'not_positive',
+    NOT_NEGATIVE: 'not_negative',
+    // A value that is not a whole number of steps, for multipleOf() and granularity()
+    NOT_MULTIPLE_OF: 'not_multiple_of',
+    // A range whose start is greater than its end
+    INVALID_RANGE: 'invalid_range',
+    // A relative time that is not after the clock
+    NOT_FUTURE: 'not_future',
+    // A relative time that is not before the clock
+    NOT_PAST: 'not_past',
+    // A time of day earlier than the after() bound
+    TOO_EARLY: 'too_early',
+    // A time of day at or later than the before() bound
+    TOO_LATE: 'too_late',
+    // A time of day outside a window that wraps past midnight
+    OUTSIDE_WINDOW: 'outside_window',
+} as const;
+
+export type TimeStringIssueCode = ( typeof TimeStringIssueCode )[keyof typeof TimeStringIssueCode];
+
+// Machine-readable details of a time string issue
+export interface TimeStringIssueParams {
+    code: TimeStringIssueCode;
+    // The failing segment, or the whole input
+    segment?: string;
+    // Index of the offending text in the input: the unit for invalid_unit, otherwise the failing segment
+    offset?: number;
+    // Unit text as written for invalid_unit, or the canonical unit for unit_not_allowed
+    unit?: string;
+    // Closest known alias to a misspelled unit, for invalid_unit
+    suggestion?: string;
+    // Canonical names of the permitted units, for unit_not_allowed
+    allowed?: string[];
+    // The parsed value in the output unit, or milliseconds since midnight for a time of day
+    value?: number;
+    minimum?: number;
+    maximum?: number;
+    // False when the minimum or maximum itself is excluded, for gt() and lt()
+    inclusive?: boolean;
+    // The step in the output unit, for not_multiple_of
+    step?: number;
+}
+
+// Issue shape pushed for every time string failure
+export interface TimeStringIssue extends z.core.$ZodIssueCustom {
+    params: TimeStringIssueParams;
+}
+
+function unwrapMessage( message: string | { message?: string } | undefined | null ): string | undefined {
+    if ( typeof message === 'string' ) return message;
+    return message?.message ?? undefined;
+}
+
+/**
+ * Builds an issue whose message is, in order: the message configured on the schema,
+ * the result of z.config's customError, or the default message.
+ * The error map of a single parse is never asked: Zod only consults it for issues without a message,
+ * and it has no later step where the default message could go.
+ */
+export function createTimeStringIssue(
+    input: unknown,
+    params: TimeStringIssueParams,
+    message: string | undefined,
+    defaultMessage: string
+): TimeStringIssue {
+    const issue = { code: 'custom' as const, input, path: [], params };
+    const customError = z.config().customError;
+    return {
+        ...issue,
+        message: message ?? unwrapMessage( customError?.( issue ) ) ?? defaultMessage,
+    };
+}
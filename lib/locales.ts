@@ -0,0 +1,223 @@
+import { TimeStringIssueCode, type TimeStringIssueParams } from './issues';
+import { TimeUnit } from './units';
+
+// What a localized default message is built from
+export interface TimeStringMessageContext extends TimeStringIssueParams {
+    // The trimmed input
+    input: string;
+    // The bound or step as written, for too_small, too_big and not_multiple_of
+    bound?: string;
+}
+
+// Default messages by issue code; codes without a message keep the English default
+export type TimeStringLocaleMessages = Partial<Record<TimeStringIssueCode, ( context: TimeStringMessageContext ) => string>>;
+
+// Unit spellings, number format and messages for one language
+export interface TimeStringLocale {
+    // Spellings accepted in addition to the English ones, keyed by canonical unit name
+    units: Partial<Record<string, readonly string[]>>;
+    // ',' also accepts comma decimals such as "1,5 h"; '.' is always accepted
+    decimalSeparator?: '.' | ',';
+    // Words that may join segments like "and" ("1 Stunde und 30 Minuten")
+    conjunctions?: readonly string[];
+    messages?: TimeStringLocaleMessages;
+}
+
+export type TimeStringLocaleName = 'de' | 'fr' | 'ko' | 'ja';
+
+// A built-in locale by name, a custom pack, or several of either where the first one's messages win
+export type TimeStringLocaleOption = TimeStringLocaleName | TimeStringLocale | readonly ( TimeStringLocaleName | TimeStringLocale )[];
+
+const de: TimeStringLocale = {
+    units: {
+        [ TimeUnit.MILLISECOND ]: [ 'Millisekunde', 'Millisekunden' ],
+        [ TimeUnit.SECOND ]: [ 'Sek', 'Sekunde', 'Sekunden' ],
+        [ TimeUnit.MINUTE ]: [ 'Minuten' ],
+        [ TimeUnit.HOUR ]: [ 'Std', 'Stunde', 'Stunden' ],
+        [ TimeUnit.DAY ]: [ 'Tag', 'Tage', 'Tagen' ],
+        [ TimeUnit.WEEK ]: [ 'Wo', 'Woche', 'Wochen' ],
+        [ TimeUnit.MONTH ]: [ 'Monat', 'Monate', 'Monaten' ],
+        [ TimeUnit.YEAR ]: [ 'Jahr', 'Jahre', 'Jahren' ],
+    },
+    decimalSeparator: ',',
+    conjunctions: [ 'und' ],
+    messages: {
+        [ TimeStringIssueCode.INVALID_FORMAT ]: ( { input } ) => `Ungültiges Zeitformat: ${ input }`,
+        [ TimeStringIssueCode.INVALID_VALUE ]: ( { input } ) => `Ungültiger Zeitwert: ${ input }`,
+        [ TimeStringIssueCode.INVALID_UNIT ]: ( { unit, suggestion } ) => suggestion
+            ? `Unbekannte Einheit '${ unit }'; meinten Sie '${ suggestion }'?`
+            : `Ungültige Zeiteinheit: ${ unit }`,
+        [ TimeStringIssueCode.MISSING_UNIT ]: ( { segment } ) => `Zeiteinheit fehlt: ${ segment }`,
+        [ TimeStringIssueCode.UNIT_NOT_ALLOWED ]: ( { unit, allowed = [] } ) =>
+            `Zeiteinheit '${ unit }' ist nicht erlaubt; erlaubt sind: ${ allowed.join( ', ' ) }`,
+        [ TimeStringIssueCode.UNREPRESENTABLE ]: ( { input } ) => `Zeitwert kann nicht dargestellt werden: ${ input }`,
+        [ TimeStringIssueCode.TOO_SMALL ]: ( { bound, inclusive } ) => inclusive === false
+            ? `Wert muss größer als ${ bound } sein`
+            : `Wert muss mindestens ${ bound } sein`,
+        [ TimeStringIssueCode.TOO_BIG ]: ( { bound, inclusive } ) => inclusive === false
+            ? `Wert muss kleiner als ${ bound } sein`
+            : `Wert darf höchstens ${ bound } sein`,
+        [ TimeStringIssueCode.NOT_POSITIVE ]: () => 'Wert muss positiv sein',
+        [ TimeStringIssueCode.NOT_NEGATIVE ]: () => 'Wert muss negativ sein',
+        [ TimeStringIssueCode.INVALID_RANGE ]: ( { input } ) => `Der Anfang des Bereichs ist größer als sein Ende: ${ input }`,
+        [ TimeStringIssueCode.NOT_FUTURE ]: () => 'Zeitpunkt muss in der Zukunft liegen',
+        [ TimeStringIssueCode.NOT_PAST ]: () => 'Zeitpunkt muss in der Vergangenheit liegen',
+        [ TimeStringIssueCode.NOT_MULTIPLE_OF ]: ( { bound } ) => `Wert muss ein Vielfaches von ${ bound } sein`,
+    },
+};
+
+const fr: TimeStringLocale = {
+    units: {
+        [ TimeUnit.MILLISECOND ]: [ 'milliseconde', 'millisecondes' ],
+        [ TimeUnit.SECOND ]: [ 'seconde', 'secondes' ],
+        [ TimeUnit.MINUTE ]: [ 'mn' ],
+        [ TimeUnit.HOUR ]: [ 'heure', 'heures' ],
+        [ TimeUnit.DAY ]: [ 'j', 'jour', 'jours' ],
+        [ TimeUnit.WEEK ]: [ 'sem', 'semaine', 'semaines' ],
+        [ TimeUnit.MONTH ]: [ 'mois' ],
+        [ TimeUnit.YEAR ]: [ 'an', 'ans', 'année', 'années' ],
+    },
+    decimalSeparator: ',',
+    conjunctions: [ 'et' ],
+    messages: {
+        [ TimeStringIssueCode.INVALID_FORMAT ]: ( { input } ) => `Format de durée invalide : ${ input }`,
+        [ TimeStringIssueCode.INVALID_VALUE ]: ( { input } ) => `Valeur de durée invalide : ${ input }`,
+        [ TimeStringIssueCode.INVALID_UNIT ]: ( { unit, suggestion } ) => suggestion
+            ? `Unité inconnue « ${ unit } » ; vouliez-vous dire « ${ suggestion } » ?`
+            : `Unité de temps invalide : ${ unit }`,
+        [ TimeStringIssueCode.MISSING_UNIT ]: ( { segment } ) => `Unité de temps manquante : ${ segment }`,
+        [ TimeStringIssueCode.UNIT_NOT_ALLOWED ]: ( { unit, allowed = [] } ) =>
+            `L'unité « ${ unit } » n'est pas autorisée ; unités possibles : ${ allowed.join( ', ' ) }`,
+        [ TimeStringIssueCode.UNREPRESENTABLE ]: ( { input } ) => `Durée non représentable : ${ input }`,
+        [ TimeStringIssueCode.TOO_SMALL ]: ( { bound, inclusive } ) => inclusive === false
+            ? `La valeur doit être strictement supérieure à ${ bound }`
+            : `La valeur doit être supérieure ou égale à ${ bound }`,
+        [ TimeStringIssueCode.TOO_BIG ]: ( { bound, inclusive } ) => inclusive === false
+            ? `La valeur doit être strictement inférieure à ${ bound }`
+            : `La valeur doit être inférieure ou égale à ${ bound }`,
+        [ TimeStringIssueCode.NOT_POSITIVE ]: () => 'La valeur doit être positive',
+        [ TimeStringIssueCode.NOT_NEGATIVE ]: () => 'La valeur doit être négative',
+        [ TimeStringIssueCode.INVALID_RANGE ]: ( { input } ) => `Le début de l'intervalle est supérieur à sa fin : ${ input }`,
+        [ TimeStringIssueCode.NOT_FUTURE ]: () => 'La date doit être dans le futur',
+        [ TimeStringIssueCode.NOT_PAST ]: () => 'La date doit être dans le passé',
+        [ TimeStringIssueCode.NOT_MULTIPLE_OF ]: ( { bound } ) => `La valeur doit être un multiple de ${ bound }`,
+    },
+};
+
+const ko: TimeStringLocale = {
+    units: {
+        [ TimeUnit.MILLISECOND ]: [ '밀리초' ],
+        [ TimeUnit.SECOND ]: [ '초' ],
+        [ TimeUnit.MINUTE ]: [ '분' ],
+        [ TimeUnit.HOUR ]: [ '시간' ],
+        [ TimeUnit.DAY ]: [ '일' ],
+        [ TimeUnit.WEEK ]: [ '주' ],
+        [ TimeUnit.MONTH ]: [ '개월', '달' ],
+        [ TimeUnit.YEAR ]: [ '년' ],
+    },
+    messages: {
+        [ TimeStringIssueCode.INVALID_FORMAT ]: ( { input } ) => `잘못된 시간 형식: ${ input }`,
+        [ TimeStringIssueCode.INVALID_VALUE ]: ( { input } ) => `잘못된 시간 값: ${ input }`,
+        [ TimeStringIssueCode.INVALID_UNIT ]: ( { unit, suggestion } ) => suggestion
+            ? `알 수 없는 단위 '${ unit }'; '${ suggestion }'을(를) 의미했나요?`
+            : `잘못된 시간 단위: ${ unit }`,
+        [ TimeStringIssueCode.MISSING_UNIT ]: ( { segment } ) => `시간 단위가 없습니다: ${ segment }`,
+        [ TimeStringIssueCode.UNIT_NOT_ALLOWED ]: ( { unit, allowed = [] } ) =>
+            `시간 단위 '${ unit }'은(는) 허용되지 않습니다. 허용 단위: ${ allowed.join( ', ' ) }`,
+        [ TimeStringIssueCode.UNREPRESENTABLE ]: ( { input } ) => `표현할 수 없는 시간 값: ${ input }`,
+        [ TimeStringIssueCode.TOO_SMALL ]: ( { bound, inclusive } ) => inclusive === false
+            ? `값은 ${ bound }보다 커야 합니다`
+            : `값은 ${ bound } 이상이어야 합니다`,
+        [ TimeStringIssueCode.TOO_BIG ]: ( { bound, inclusive } ) => inclusive === false
+            ? `값은 ${ bound }보다 작아야 합니다`
+            : `값은 ${ bound } 이하여야 합니다`,
+        [ TimeStringIssueCode.NOT_POSITIVE ]: () => '값은 양수여야 합니다',
+        [ TimeStringIssueCode.NOT_NEGATIVE ]: () => '값은 음수여야 합니다',
+        [ TimeStringIssueCode.INVALID_RANGE ]: ( { input } ) => `범위의 시작이 끝보다 큽니다: ${ input }`,
+        [ TimeStringIssueCode.NOT_FUTURE ]: () => '미래 시점이어야 합니다',
+        [ TimeStringIssueCode.NOT_PAST ]: () => '과거 시점이어야 합니다',
+        [ TimeStringIssueCode.NOT_MULTIPLE_OF ]: ( { bound } ) => `값은 ${ bound }의 배수여야 합니다`,
+    },
+};
+
+const ja: TimeStringLocale = {
+    units: {
+        [ TimeUnit.MILLISECOND ]: [ 'ミリ秒' ],
+        [ TimeUnit.SECOND ]: [ '秒' ],
+        [ TimeUnit.MINUTE ]: [ '分' ],
+        [ TimeUnit.HOUR ]: [ '時間' ],
+        [ TimeUnit.DAY ]: [ '日' ],
+        [ TimeUnit.WEEK ]: [ '週', '週間' ],
+        [ TimeUnit.MONTH ]: [ 'か月', 'ヶ月', 'カ月', 'ヵ月' ],
+        [ TimeUnit.YEAR ]: [ '年' ],
+    },
+    messages: {
+        [ TimeStringIssueCode.INVALID_FORMAT ]: ( { input } ) => `無効な時間形式です: ${ input }`,
+        [ TimeStringIssueCode.INVALID_VALUE ]: ( { input } ) => `無効な時間の値です: ${ input }`,
+        [ TimeStringIssueCode.INVALID_UNIT ]: ( { unit, suggestion } ) => suggestion
+            ? `不明な単位 '${ unit }' です。'${ suggestion }' のことですか？`
+            : `無効な時間の単位です: ${ unit }`,
+        [ TimeStringIssueCode.MISSING_UNIT ]: ( { segment } ) => `時間の単位がありません: ${ segment }`,
+        [ TimeStringIssueCode.UNIT_NOT_ALLOWED ]: ( { unit, allowed = [] } ) =>
+            `時間の単位 '${ unit }' は使用できません。使用できる単位: ${ allowed.join( ', ' ) }`,
+        [ TimeStringIssueCode.UNREPRESENTABLE ]: ( { input } ) => `表現できない時間の値です: ${ input }`,
+        [ TimeStringIssueCode.TOO_SMALL ]: ( { bound, inclusive } ) => inclusive === false
+            ? `値は${ bound }より大きい必要があります`
+            : `値は${ bound }以上である必要があります`,
+        [ TimeStringIssueCode.TOO_BIG ]: ( { bound, inclusive } ) => inclusive === false
+            ? `値は${ bound }より小さい必要があります`
+            : `値は${ bound }以下である必要があります`,
+        [ TimeStringIssueCode.NOT_POSITIVE ]: () => '値は正の数である必要があります',
+        [ TimeStringIssueCode.NOT_NEGATIVE ]: () => '値は負の数である必要があります',
+        [ TimeStringIssueCode.INVALID_RANGE ]: ( { input } ) => `範囲の開始が終了より大きくなっています: ${ input }`,
+        [ TimeStringIssueCode.NOT_FUTURE ]: () => '未来の時刻である必要があります',
+        [ TimeStringIssueCode.NOT_PAST ]: () => '過去の時刻である必要があります',
+        [ TimeStringIssueCode.NOT_MULTIPLE_OF ]: ( { bound } ) => `値は${ bound }の倍数である必要があります`,
+    },
+};
+
+// Locale packs that ship with the library
+export const TIME_STRING_LOCALES: Readonly<Record<TimeStringLocaleName, Readonly<TimeStringLocale>>> = { de, fr, ko, ja };
+
+// Selected locales merged into what the parser and the messages need
+export interface ResolvedTimeStringLocales {
+    units: Record<string, string[]>;
+    decimalComma: boolean;
+    conjunctions: string[];
+    messages: TimeStringLocaleMessages;
+}
+
+/**
+ * Merges the selected locales: unit spellings and conjunctions from all of them,
+ * and for each issue code the message of the first locale that has one.
+ * Throws for an unknown locale name.
+ */
+export function resolveTimeStringLocales( option: TimeStringLocaleOption ): ResolvedTimeStringLocales {
+    const selected: readonly ( TimeStringLocaleName | TimeStringLocale )[] = Array.isArray( option )
+        ? option
+        : [ option as TimeStringLocaleName | TimeStringLocale ];
+    const resolved: ResolvedTimeStringLocales = { units: {}, decimalComma: false, conjunctions: [], messages: {} };
+
+    for ( const entry of selected ) {
+        const locale = typeof entry === 'string' ? TIME_STRING_LOCALES[ entry ] : entry;
+        if ( !locale ) {
+            throw new Error( `Unknown locale "${ entry }"` );
+        }
+
+        for ( const unit of Object.keys( locale.units ) ) {
+            resolved.units[ unit ] = ( resolved.units[ unit ] || [] ).concat( locale.units[ unit ] || [] );
+        }
+        resolved.decimalComma = resolved.decimalComma || locale.decimalSeparator === ',';
+        resolved.conjunctions = resolved.conjunctions.concat( locale.conjunctions || [] );
+
+        const messages = locale.messages || {};
+        for ( const code of Object.keys( messages ) as TimeStringIssueCode[] ) {
+            const message = messages[ code ];
+            if ( message && !resolved.messages[ code ] ) {
+                resolved.messages[ code ] = message;
+            }
+        }
+    }
+
+    return resolved;
+}
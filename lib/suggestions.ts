@@ -0,0 +1,64 @@
+// "Did you mean" suggestions for misspelled units
+
+/**
+ * Edit distance that counts insertions, deletions, substitutions and swaps of adjacent characters,
+ * so "mintues" is one edit away from "minutes". Only the last two rows are kept, as a swap looks back two rows.
+ */
+function editDistance( a: string, b: string ): number {
+    let beforePrevious: number[] = [];
+    let previous: number[] = [];
+    for ( let j = 0; j <= b.length; j++ ) {
+        previous.push( j );
+    }
+
+    for ( let i = 1; i <= a.length; i++ ) {
+        const row = [ i ];
+        for ( let j = 1; j <= b.length; j++ ) {
+            const cost = a[ i - 1 ] === b[ j - 1 ] ? 0 : 1;
+            let distance = Math.min(
+                ( previous[ j ] as number ) + 1,
+                ( row[ j - 1 ] as number ) + 1,
+                ( previous[ j - 1 ] as number ) + cost
+            );
+            if ( i > 1 && j > 1 && a[ i - 1 ] === b[ j - 2 ] && a[ i - 2 ] === b[ j - 1 ] ) {
+                distance = Math.min( distance, ( beforePrevious[ j - 2 ] as number ) + 1 );
+            }
+            row.push( distance );
+        }
+        beforePrevious = previous;
+        previous = row;
+    }
+
+    return previous[ b.length ] as number;
+}
+
+/**
+ * Finds the alias closest to a misspelled unit, allowing about one edit per three characters (two for "hrous").
+ * Ties go to the alias whose length is closest to the text. Returns undefined when nothing is close enough.
+ * The difference in length is already a lower bound on the distance, so aliases too short or too long are skipped.
+ */
+export function findClosestAlias( text: string, aliases: readonly string[] ): string | undefined {
+    const maxDistance = Math.floor( ( text.length + 1 ) / 3 );
+    const longest = aliases.reduce( ( length, alias ) => Math.max( length, alias.length ), 0 );
+    if ( text.length > longest + maxDistance ) {
+        return undefined;
+    }
+
+    const target = text.toLowerCase();
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    for ( const alias of aliases ) {
+        if ( Math.abs( alias.length - target.length ) > maxDistance ) continue;
+
+        const distance = editDistance( target, alias.toLowerCase() );
+        const closer = distance < bestDistance
+            || ( distance === bestDistance && best !== undefined
+                && Math.abs( alias.length - target.length ) < Math.abs( best.length - target.length ) );
+        if ( closer ) {
+            best = alias;
+            bestDistance = distance;
+        }
+    }
+
+    return bestDistance <= maxDistance ? best : undefined;
+}
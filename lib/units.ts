@@ -0,0 +1,127 @@
+export const TimeUnit = {
+    MILLISECOND: 'ms',
+    SECOND: 's',
+    MINUTE: 'm',
+    HOUR: 'h',
+    DAY: 'd',
+    WEEK: 'w',
+    MONTH: 'mo',
+    YEAR: 'y',
+} as const;
+
+export type TimeUnit = ( typeof TimeUnit )[keyof typeof TimeUnit];
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lengths of a month and a year in milliseconds, used whenever parsing is not anchored to a date
+export interface MonthYearConvention {
+    month: number;
+    year: number;
+}
+
+export type MonthYearConventionName = 'default' | 'billing' | 'gregorian' | 'julian';
+
+// A named convention, or explicit lengths in milliseconds where a missing length keeps the default
+export type MonthYearConventionOption = MonthYearConventionName | Partial<MonthYearConvention>;
+
+// The convention a schema converts months and years with
+export interface ActiveMonthYearConvention extends MonthYearConvention {
+    name: MonthYearConventionName | 'custom';
+}
+
+export const MONTH_YEAR_CONVENTIONS: Readonly<Record<MonthYearConventionName, Readonly<MonthYearConvention>>> = {
+    // 30-day months and 365-day years
+    default: { month: 30 * DAY_MS, year: 365 * DAY_MS },
+    // 30-day months and 360-day years, as in the 30/360 day count
+    billing: { month: 30 * DAY_MS, year: 360 * DAY_MS },
+    // Averages of the Gregorian calendar: 30.436875-day months and 365.2425-day years
+    gregorian: { month: 30.436875 * DAY_MS, year: 365.2425 * DAY_MS },
+    // Averages of the Julian calendar: 30.4375-day months and 365.25-day years
+    julian: { month: 30.4375 * DAY_MS, year: 365.25 * DAY_MS },
+};
+
+/**
+ * Resolves a convention option into month and year lengths.
+ * Throws for unknown names and for lengths that are not positive, finite numbers.
+ */
+export function resolveMonthYearConvention( option: MonthYearConventionOption ): ActiveMonthYearConvention {
+    if ( typeof option === 'string' ) {
+        const convention = MONTH_YEAR_CONVENTIONS[ option ];
+        if ( !convention ) {
+            throw new Error( `Unknown month/year convention "${ option }"` );
+        }
+        return { name: option, month: convention.month, year: convention.year };
+    }
+
+    const { month = MONTH_YEAR_CONVENTIONS.default.month, year = MONTH_YEAR_CONVENTIONS.default.year } = option;
+    if ( !( month > 0 ) || !isFinite( month ) || !( year > 0 ) || !isFinite( year ) ) {
+        throw new Error( 'Month and year lengths must be positive, finite numbers of milliseconds' );
+    }
+    return { name: 'custom', month, year };
+}
+
+// Returns a copy of the unit table with its month and year lengths set by the convention
+export function applyMonthYearConvention( table: TimeUnitTable, convention: MonthYearConvention ): TimeUnitTable {
+    const result = { ...table };
+    const month = result[ TimeUnit.MONTH ];
+    const year = result[ TimeUnit.YEAR ];
+    if ( month ) result[ TimeUnit.MONTH ] = { ...month, ms: convention.month };
+    if ( year ) result[ TimeUnit.YEAR ] = { ...year, ms: convention.year };
+    return result;
+}
+
+const TIME_UNIT_TO_MS: Record<TimeUnit, number> = {
+    [ TimeUnit.MILLISECOND ]: 1,
+    [ TimeUnit.SECOND ]: 1000,
+    [ TimeUnit.MINUTE ]: 60 * 1000,
+    [ TimeUnit.HOUR ]: 60 * 60 * 1000,
+    [ TimeUnit.DAY ]: DAY_MS,
+    [ TimeUnit.WEEK ]: 7 * DAY_MS,
+    [ TimeUnit.MONTH ]: MONTH_YEAR_CONVENTIONS.default.month,
+    [ TimeUnit.YEAR ]: MONTH_YEAR_CONVENTIONS.default.year,
+};
+
+// The last aliases keep the clipped spellings that earlier versions accepted, such as "5se", "5hou" and "5mont"
+const TIME_UNIT_PATTERNS: Record<TimeUnit, string[]> = {
+    [ TimeUnit.MILLISECOND ]: [ 'ms', 'msec', 'msecs', 'millisecond', 'milliseconds', 'mse', 'millisecon' ],
+    [ TimeUnit.SECOND ]: [ 's', 'sec', 'secs', 'second', 'seconds', 'se', 'secon' ],
+    [ TimeUnit.MINUTE ]: [ 'm', 'min', 'mins', 'minute', 'minutes', 'mi', 'minut' ],
+    [ TimeUnit.HOUR ]: [ 'h', 'hr', 'hrs', 'hour', 'hours', 'hou' ],
+    [ TimeUnit.DAY ]: [ 'd', 'day', 'days', 'da' ],
+    [ TimeUnit.WEEK ]: [ 'w', 'wk', 'wks', 'week', 'weeks' ],
+    [ TimeUnit.MONTH ]: [ 'mo', 'mth', 'month', 'months', 'mont' ],
+    [ TimeUnit.YEAR ]: [ 'y', 'yr', 'yrs', 'year', 'years', 'yea' ],
+};
+
+// Singular and plural names used when writing units out in full
+export const TIME_UNIT_NAMES: Record<TimeUnit, [ string, string ]> = {
+    [ TimeUnit.MILLISECOND ]: [ 'millisecond', 'milliseconds' ],
+    [ TimeUnit.SECOND ]: [ 'second', 'seconds' ],
+    [ TimeUnit.MINUTE ]: [ 'minute', 'minutes' ],
+    [ TimeUnit.HOUR ]: [ 'hour', 'hours' ],
+    [ TimeUnit.DAY ]: [ 'day', 'days' ],
+    [ TimeUnit.WEEK ]: [ 'week', 'weeks' ],
+    [ TimeUnit.MONTH ]: [ 'month', 'months' ],
+    [ TimeUnit.YEAR ]: [ 'year', 'years' ],
+};
+
+// A unit that can be used in a time string
+export interface TimeUnitDefinition {
+    // Length of one unit in milliseconds
+    ms: number;
+    // Spellings accepted for the unit, matched case-insensitively
+    aliases: readonly string[];
+}
+
+// Unit table keyed by the canonical unit name
+export type TimeUnitTable = Record<string, TimeUnitDefinition>;
+
+// Built-in units every schema starts from
+export const DEFAULT_TIME_UNITS: Readonly<TimeUnitTable> = ( () => {
+    const table: TimeUnitTable = {};
+    const timeUnitKeys = Object.keys( TIME_UNIT_TO_MS ) as TimeUnit[];
+    for ( const unit of timeUnitKeys ) {
+        table[ unit ] = { ms: TIME_UNIT_TO_MS[ unit ], aliases: TIME_UNIT_PATTERNS[ unit ] };
+    }
+    return table;
+} )();
@@ -0,0 +1,86 @@
+import { loadTimeStringEnv, TimeStringEnvError, TimeUnit, zodClockDuration, zodTimeString } from '../lib';
+
+describe( 'loadTimeStringEnv', () => {
+    describe( 'reading values', () => {
+        test( 'should parse each variable with its schema', () => {
+            const config = loadTimeStringEnv( {
+                HTTP_TIMEOUT: zodTimeString.positive(),
+                CACHE_TTL: { schema: zodTimeString.in( TimeUnit.SECOND ) },
+                SHIFT: zodClockDuration,
+            }, { HTTP_TIMEOUT: '30s', CACHE_TTL: '1h', SHIFT: '8:00:00', UNRELATED: 'x' } );
+
+            expect( config ).toEqual( { HTTP_TIMEOUT: 30000, CACHE_TTL: 3600, SHIFT: 28800000 } );
+        } );
+
+        test( 'should fall back to defaults for unset and empty variables', () => {
+            const spec = {
+                HTTP_TIMEOUT: { schema: zodTimeString, default: '30s' },
+                CACHE_TTL: { schema: zodTimeString, default: '1h' },
+            };
+
+            expect( loadTimeStringEnv( spec, {} ) ).toEqual( { HTTP_TIMEOUT: 30000, CACHE_TTL: 3600000 } );
+            expect( loadTimeStringEnv( spec, { HTTP_TIMEOUT: '', CACHE_TTL: '5m' } ) ).toEqual( { HTTP_TIMEOUT: 30000, CACHE_TTL: 300000 } );
+        } );
+
+        test( 'should type the result by schema output', () => {
+            const config = loadTimeStringEnv( { LIMIT: zodTimeString.bigint() }, { LIMIT: '1s' } );
+            const limit: bigint = config.LIMIT;
+
+            expect( limit ).toBe( BigInt( 1000 ) );
+        } );
+    } );
+
+    describe( 'failures', () => {
+        test( 'should report every failing variable in one error', () => {
+            const read = () => loadTimeStringEnv( {
+                HTTP_TIMEOUT: zodTimeString.positive(),
+                CACHE_TTL: zodTimeString,
+                RETRY_DELAY: { schema: zodTimeString.max( '1m' ), default: '5s' },
+                POLL_INTERVAL: zodTimeString,
+            }, { HTTP_TIMEOUT: '-5s', CACHE_TTL: '1 fortnight', RETRY_DELAY: '2m' } );
+
+            expect( read ).toThrow( TimeStringEnvError );
+            expect( read ).toThrow( [
+                'Invalid time settings:',
+                '  HTTP_TIMEOUT="-5s": Value must be positive',
+                '  CACHE_TTL="1 fortnight": Invalid time unit: fortnight',
+                '  RETRY_DELAY="2m": Value must be less than or equal to 1m',
+                '  POLL_INTERVAL is not set',
+            ].join( '\n' ) );
+        } );
+
+        test( 'should expose the failures', () => {
+            let error: unknown;
+            try {
+                loadTimeStringEnv( { HTTP_TIMEOUT: zodTimeString, CACHE_TTL: zodTimeString }, { HTTP_TIMEOUT: 'soon', CACHE_TTL: '1h' } );
+            } catch ( caught ) {
+                error = caught;
+            }
+
+            expect( error ).toBeInstanceOf( TimeStringEnvError );
+            expect( ( error as TimeStringEnvError ).name ).toBe( 'TimeStringEnvError' );
+            expect( ( error as TimeStringEnvError ).failures ).toEqual( [
+                { name: 'HTTP_TIMEOUT', value: 'soon', isDefault: false, issues: [ expect.objectContaining( { message: 'Invalid time format: soon' } ) ] },
+            ] );
+        } );
+
+        test( 'should validate defaults with the same schema', () => {
+            const read = () => loadTimeStringEnv( { CACHE_TTL: { schema: zodTimeString.max( '1d' ), default: '1w' } }, {} );
+
+            expect( read ).toThrow( 'CACHE_TTL default="1w": Value must be less than or equal to 1d' );
+        } );
+
+        test( 'should validate defaults of variables that are set', () => {
+            const read = () => loadTimeStringEnv( {
+                CACHE_TTL: { schema: zodTimeString.max( '1d' ), default: '30x' },
+                HTTP_TIMEOUT: { schema: zodTimeString, default: '30s' },
+            }, { CACHE_TTL: '1h', HTTP_TIMEOUT: 'soon' } );
+
+            expect( read ).toThrow( [
+                'Invalid time settings:',
+                '  CACHE_TTL default="30x": Invalid time unit: x',
+                '  HTTP_TIMEOUT="soon": Invalid time format: soon',
+            ].join( '\n' ) );
+        } );
+    } );
+} );
@@ -0,0 +1,91 @@
+import { formatTimeString, TimeUnit, zodTimeString } from '../lib';
+
+describe( 'formatTimeString', () => {
+    describe( 'compound output', () => {
+        test( 'should split durations across units', () => {
+            expect( formatTimeString( 5400000 ) ).toBe( '1h 30m' );
+            expect( formatTimeString( 90061001 ) ).toBe( '1d 1h 1m 1s 1ms' );
+            expect( formatTimeString( 1000 ) ).toBe( '1s' );
+        } );
+
+        test( 'should format zero with the smallest unit', () => {
+            expect( formatTimeString( 0 ) ).toBe( '0ms' );
+            expect( formatTimeString( 0, { units: [ TimeUnit.HOUR, TimeUnit.SECOND ] } ) ).toBe( '0s' );
+        } );
+
+        test( 'should limit the number of segments', () => {
+            expect( formatTimeString( 5415000, { maxSegments: 2 } ) ).toBe( '1h 30.25m' );
+            expect( formatTimeString( 5415000, { maxSegments: 1 } ) ).toBe( '1.5h' );
+            expect( formatTimeString( 5400001, { maxSegments: 1 } ) ).toBe( '1.5h' );
+        } );
+
+        test( 'should only use the given units', () => {
+            const units = [ TimeUnit.YEAR, TimeUnit.MONTH, TimeUnit.DAY ];
+            expect( formatTimeString( 400 * 24 * 60 * 60 * 1000, { units } ) ).toBe( '1y 1mo 5d' );
+            expect( formatTimeString( 7200000, { units: [ TimeUnit.MINUTE ] } ) ).toBe( '120m' );
+        } );
+    } );
+
+    describe( 'largest unit output', () => {
+        test( 'should use the largest unit that represents the value exactly', () => {
+            expect( formatTimeString( 5400000, { format: 'largest' } ) ).toBe( '1.5h' );
+            expect( formatTimeString( 100000, { format: 'largest' } ) ).toBe( '100s' );
+            expect( formatTimeString( 100000, { format: 'largest', precision: 0 } ) ).toBe( '100s' );
+        } );
+
+        test( 'should fall back to the smallest unit when no unit is exact', () => {
+            expect( formatTimeString( 1.125, { format: 'largest' } ) ).toBe( '1.13ms' );
+            expect( formatTimeString( 1.125, { format: 'largest', precision: 3 } ) ).toBe( '1.125ms' );
+        } );
+    } );
+
+    describe( 'styles', () => {
+        test( 'should write long unit names', () => {
+            expect( formatTimeString( 5415000, { style: 'long' } ) ).toBe( '1 hour 30 minutes 15 seconds' );
+            expect( formatTimeString( 1, { style: 'long' } ) ).toBe( '1 millisecond' );
+            expect( formatTimeString( 108000000, { style: 'long', format: 'largest' } ) ).toBe( '1.25 days' );
+        } );
+    } );
+
+    describe( 'negative values', () => {
+        test( 'should keep a leading sign by default', () => {
+            expect( formatTimeString( -5400000 ) ).toBe( '-1h 30m' );
+            expect( formatTimeString( -5400000, { format: 'largest' } ) ).toBe( '-1.5h' );
+        } );
+
+        test( 'should drop the sign in absolute mode', () => {
+            expect( formatTimeString( -5400000, { negative: 'absolute' } ) ).toBe( '1h 30m' );
+        } );
+
+        test( 'should not sign values that round to zero', () => {
+            expect( formatTimeString( -0.001 ) ).toBe( '0ms' );
+            expect( formatTimeString( -0.5 ) ).toBe( '-0.5ms' );
+        } );
+    } );
+
+    describe( 'round trip', () => {
+        test( 'should parse back to the same number', () => {
+            const values = [ 0, 1, 999, 1000, 5400000, 5415000, -5415000, 90061001, 31536000000, 123456789 ];
+            const styles = [ 'short', 'long' ] as const;
+            const formats = [ 'compound', 'largest' ] as const;
+
+            for ( const value of values ) {
+                for ( const style of styles ) {
+                    for ( const format of formats ) {
+                        expect( zodTimeString.parse( formatTimeString( value, { style, format } ) ) ).toBe( value );
+                    }
+                }
+            }
+        } );
+    } );
+
+    describe( 'invalid options', () => {
+        test( 'should throw for values and options that cannot be formatted', () => {
+            expect( () => formatTimeString( Infinity ) ).toThrow();
+            expect( () => formatTimeString( NaN ) ).toThrow();
+            expect( () => formatTimeString( 1000, { units: [] } ) ).toThrow();
+            expect( () => formatTimeString( 1000, { maxSegments: 0 } ) ).toThrow();
+            expect( () => formatTimeString( 1000, { precision: -1 } ) ).toThrow();
+        } );
+    } );
+} );
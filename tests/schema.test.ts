@@ -1,4 +1,5 @@
-import { zodTimeString } from '../lib';
+import { z } from 'zod';
+import { createClockDuration, createTimeString, MONTH_YEAR_CONVENTIONS, TIME_STRING_LOCALES, TimeStringIssueCode, type TimeStringSchema, TimeUnit, zodClockDuration, zodIsoDuration, zodTimeOfDay, zodTimeString } from '../lib';
 
 describe( 'timeStringSchema', () => {
     describe( 'basic validation', () => {
@@ -66,6 +67,14 @@ describe( 'timeStringSchema', () => {
             expect( zodTimeString.parse( '3days' ) ).toBe( 259200000 );
         } );
 
+        test( 'should recognize week variations', () => {
+            expect( zodTimeString.parse( '2w' ) ).toBe( 1209600000 );
+            expect( zodTimeString.parse( '2wk' ) ).toBe( 1209600000 );
+            expect( zodTimeString.parse( '2wks' ) ).toBe( 1209600000 );
+            expect( zodTimeString.parse( '2week' ) ).toBe( 1209600000 );
+            expect( zodTimeString.parse( '2weeks' ) ).toBe( 1209600000 );
+        } );
+
         test( 'should recognize month variations', () => {
             expect( zodTimeString.parse( '2mo' ) ).toBe( 5184000000 );
             expect( zodTimeString.parse( '2mth' ) ).toBe( 5184000000 );
@@ -80,6 +89,19 @@ describe( 'timeStringSchema', () => {
             expect( zodTimeString.parse( '1year' ) ).toBe( 31536000000 );
             expect( zodTimeString.parse( '1years' ) ).toBe( 31536000000 );
         } );
+
+        test( 'should keep the clipped spellings of earlier versions', () => {
+            expect( zodTimeString.parse( '5mse' ) ).toBe( 5 );
+            expect( zodTimeString.parse( '5millisecon' ) ).toBe( 5 );
+            expect( zodTimeString.parse( '5se' ) ).toBe( 5000 );
+            expect( zodTimeString.parse( '5secon' ) ).toBe( 5000 );
+            expect( zodTimeString.parse( '5mi' ) ).toBe( 300000 );
+            expect( zodTimeString.parse( '5minut' ) ).toBe( 300000 );
+            expect( zodTimeString.parse( '5hou' ) ).toBe( 18000000 );
+            expect( zodTimeString.parse( '5da' ) ).toBe( 432000000 );
+            expect( zodTimeString.parse( '2mont' ) ).toBe( 5184000000 );
+            expect( zodTimeString.parse( '1yea' ) ).toBe( 31536000000 );
+        } );
     } );
 
     describe( 'edge cases', () => {
@@ -102,6 +124,180 @@ describe( 'timeStringSchema', () => {
         } );
     } );
 
+    describe( 'compound durations', () => {
+        test( 'should sum adjacent segments', () => {
+            expect( zodTimeString.parse( '1h30m' ) ).toBe( 5400000 );
+            expect( zodTimeString.parse( '2d4h' ) ).toBe( 187200000 );
+            expect( zodTimeString.parse( '1.5h30m' ) ).toBe( 7200000 );
+        } );
+
+        test( 'should accept whitespace, commas and "and" between segments', () => {
+            expect( zodTimeString.parse( '1h 30m 15s' ) ).toBe( 5415000 );
+            expect( zodTimeString.parse( '2d 4h 10m' ) ).toBe( 187800000 );
+            expect( zodTimeString.parse( '1h, 30m' ) ).toBe( 5400000 );
+            expect( zodTimeString.parse( '1 hour and 30 minutes' ) ).toBe( 5400000 );
+            expect( zodTimeString.parse( '1h, 30m and 15s' ) ).toBe( 5415000 );
+        } );
+
+        test( 'should negate the whole duration with a leading minus sign', () => {
+            expect( zodTimeString.parse( '-1h 30m' ) ).toBe( -5400000 );
+        } );
+
+        test( 'should reject unitless and signed segments inside a compound duration', () => {
+            expect( () => zodTimeString.parse( '1h 30' ) ).toThrow();
+            expect( () => zodTimeString.parse( '30 1h' ) ).toThrow();
+            expect( () => zodTimeString.parse( '1h -30m' ) ).toThrow();
+        } );
+
+        test( 'should reject dangling separators', () => {
+            expect( () => zodTimeString.parse( '1h and' ) ).toThrow();
+            expect( () => zodTimeString.parse( '1h,' ) ).toThrow();
+        } );
+
+        test( 'should report the invalid segment', () => {
+            const unitResult = zodTimeString.safeParse( '1h 5z 30m' );
+            expect( unitResult.success ).toBe( false );
+            expect( unitResult.error?.issues[ 0 ]?.message ).toBe( 'Invalid time unit: z (in segment "5z")' );
+
+            const formatResult = zodTimeString.safeParse( '1h 30' );
+            expect( formatResult.error?.issues[ 0 ]?.message ).toBe( 'Invalid time format: 1h 30 (in segment "30")' );
+        } );
+    } );
+
+    describe( 'custom units', () => {
+        const schema = createTimeString( {
+            units: {
+                sprint: { ms: 14 * 24 * 60 * 60 * 1000, aliases: [ 'sprint', 'sprints', 'sp' ] },
+                tick: { ms: 50, aliases: [ 'tick', 'ticks' ] },
+            }
+        } );
+
+        test( 'should parse custom units alongside the built-in ones', () => {
+            expect( schema.parse( '1sprint' ) ).toBe( 1209600000 );
+            expect( schema.parse( '2 sp' ) ).toBe( 2419200000 );
+            expect( schema.parse( '3 ticks' ) ).toBe( 150 );
+            expect( schema.parse( '1 sprint 2d' ) ).toBe( 1382400000 );
+            expect( schema.parse( '5m' ) ).toBe( 300000 );
+        } );
+
+        test( 'should not leak custom units into the default schema', () => {
+            expect( () => zodTimeString.parse( '1sprint' ) ).toThrow();
+        } );
+
+        test( 'should allow overriding a built-in unit', () => {
+            const businessDays = createTimeString( {
+                units: { d: { ms: 8 * 60 * 60 * 1000, aliases: [ 'd', 'day', 'days' ] } }
+            } );
+
+            expect( businessDays.parse( '2d' ) ).toBe( 57600000 );
+        } );
+
+        test( 'should support chainable methods and custom error messages', () => {
+            expect( () => schema.max( 1000 ).parse( '1 tick' ) ).not.toThrow();
+            expect( () => schema.max( 1000 ).parse( '1 sprint' ) ).toThrow();
+
+            const result = schema.withErrorMessages( { invalidUnitError: 'Unknown unit' } ).safeParse( '1 sprnt' );
+            expect( result.error?.issues[ 0 ]?.message ).toBe( 'Unknown unit' );
+            expect( schema.withErrorMessages( {} ).parse( '1sp' ) ).toBe( 1209600000 );
+        } );
+
+        test( 'should throw for invalid unit tables', () => {
+            expect( () => createTimeString( { units: { tick: { ms: 50, aliases: [ 's' ] } } } ) ).toThrow();
+            expect( () => createTimeString( { units: { tick: { ms: 0, aliases: [ 'tick' ] } } } ) ).toThrow();
+            expect( () => createTimeString( { units: { tick: { ms: 50, aliases: [] } } } ) ).toThrow();
+        } );
+    } );
+
+    describe( 'output unit', () => {
+        test( 'should output values in the chosen unit', () => {
+            expect( zodTimeString.in( TimeUnit.SECOND ).parse( '5m' ) ).toBe( 300 );
+            expect( zodTimeString.in( TimeUnit.MINUTE ).parse( '2h' ) ).toBe( 120 );
+            expect( zodTimeString.in( TimeUnit.HOUR ).parse( '3d' ) ).toBe( 72 );
+            expect( zodTimeString.in( TimeUnit.MILLISECOND ).parse( '1s' ) ).toBe( 1000 );
+        } );
+
+        test( 'should truncate by default', () => {
+            expect( zodTimeString.in( TimeUnit.SECOND ).parse( '1500ms' ) ).toBe( 1 );
+            expect( zodTimeString.in( TimeUnit.SECOND ).parse( '-1500ms' ) ).toBe( -1 );
+        } );
+
+        test( 'should apply the rounding policy', () => {
+            expect( zodTimeString.in( TimeUnit.SECOND, 'round' ).parse( '1500ms' ) ).toBe( 2 );
+            expect( zodTimeString.in( TimeUnit.SECOND, 'floor' ).parse( '-1500ms' ) ).toBe( -2 );
+            expect( zodTimeString.in( TimeUnit.SECOND, 'ceil' ).parse( '1001ms' ) ).toBe( 2 );
+            expect( zodTimeString.in( TimeUnit.HOUR, 'none' ).parse( '90m' ) ).toBe( 1.5 );
+        } );
+
+        test( 'should apply chained bounds in the output unit', () => {
+            const schema = zodTimeString.in( TimeUnit.SECOND ).positive().min( 10 ).max( 60 );
+
+            expect( schema.parse( '30s' ) ).toBe( 30 );
+            expect( schema.parse( '1m' ) ).toBe( 60 );
+            expect( () => schema.parse( '5s' ) ).toThrow();
+            expect( () => schema.parse( '2m' ) ).toThrow();
+        } );
+
+        test( 'should keep the output unit when customizing error messages', () => {
+            const schema = zodTimeString.in( TimeUnit.SECOND ).withErrorMessages( { invalidFormatError: 'Bad' } );
+
+            expect( schema.parse( '1m' ) ).toBe( 60 );
+            expect( schema.safeParse( 'abc' ).error?.issues[ 0 ]?.message ).toBe( 'Bad' );
+        } );
+
+        test( 'should support custom units', () => {
+            const schema = createTimeString( {
+                units: { sprint: { ms: 14 * 24 * 60 * 60 * 1000, aliases: [ 'sprint', 'sprints' ] } }
+            } );
+
+            expect( schema.in( 'sprint', 'none' ).parse( '7d' ) ).toBe( 0.5 );
+            expect( schema.in( TimeUnit.DAY ).parse( '2 sprints' ) ).toBe( 28 );
+        } );
+
+        test( 'should throw for unknown output units', () => {
+            expect( () => zodTimeString.in( 'fortnight' ) ).toThrow();
+        } );
+    } );
+
+    describe( 'numeric precision', () => {
+        test( 'should convert decimal values exactly', () => {
+            expect( zodTimeString.parse( '1.1h' ) ).toBe( 3960000 );
+            expect( zodTimeString.rounding( 'ceil' ).parse( '1.1h' ) ).toBe( 3960000 );
+            expect( zodTimeString.rounding( 'none' ).parse( '0.1s 0.2s' ) ).toBe( 300 );
+        } );
+
+        test( 'should truncate fractional milliseconds by default', () => {
+            expect( zodTimeString.parse( '1.5ms' ) ).toBe( 1 );
+            expect( zodTimeString.parse( '-0.5s' ) ).toBe( -500 );
+            expect( Object.is( zodTimeString.parse( '-0.0005s' ), 0 ) ).toBe( true );
+        } );
+
+        test( 'should apply the rounding policy', () => {
+            expect( zodTimeString.rounding( 'round' ).parse( '1.5ms' ) ).toBe( 2 );
+            expect( zodTimeString.rounding( 'round' ).parse( '-2.5ms' ) ).toBe( -2 );
+            expect( zodTimeString.rounding( 'floor' ).parse( '-0.0005s' ) ).toBe( -1 );
+            expect( zodTimeString.rounding( 'ceil' ).parse( '1.0001ms' ) ).toBe( 2 );
+            expect( zodTimeString.rounding( 'trunc' ).parse( '-1.5ms' ) ).toBe( -1 );
+            expect( zodTimeString.rounding( 'none' ).parse( '1.5ms' ) ).toBe( 1.5 );
+        } );
+
+        test( 'should reject results beyond the safe integer range', () => {
+            expect( zodTimeString.parse( '285616y' ) ).toBe( 9007186176000000 );
+            expect( () => zodTimeString.parse( '1000000y' ) ).toThrow();
+
+            const result = zodTimeString.withErrorMessages( { invalidValueError: 'Too large' } ).safeParse( '1000000y' );
+            expect( result.error?.issues[ 0 ]?.message ).toBe( 'Too large' );
+        } );
+
+        test( 'should output exact bigint values', () => {
+            expect( zodTimeString.bigint().parse( '1000000000y' ) ).toBe( BigInt( '31536000000000000000' ) );
+            expect( zodTimeString.bigint().parse( '1.5ms' ) ).toBe( BigInt( 1 ) );
+            expect( zodTimeString.rounding( 'ceil' ).bigint().parse( '1.5ms' ) ).toBe( BigInt( 2 ) );
+            expect( zodTimeString.in( TimeUnit.SECOND, 'none' ).bigint().parse( '3000ms' ) ).toBe( BigInt( 3 ) );
+            expect( () => zodTimeString.rounding( 'none' ).bigint().parse( '1.5ms' ) ).toThrow();
+            expect( () => zodTimeString.bigint().parse( 'abc' ) ).toThrow();
+        } );
+    } );
+
     describe( 'error handling', () => {
         test( 'should throw for invalid formats', () => {
             expect( () => zodTimeString.parse( 'abc' ) ).toThrow();
@@ -200,6 +396,44 @@ describe( 'timeStringSchema', () => {
             } );
         } );
 
+        describe( 'time string bounds', () => {
+            test( 'should accept time strings for min() and max()', () => {
+                const schema = zodTimeString.min( '1s' ).max( '1h' );
+
+                expect( schema.parse( '1s' ) ).toBe( 1000 );
+                expect( schema.parse( '30m' ) ).toBe( 1800000 );
+                expect( schema.parse( '1h' ) ).toBe( 3600000 );
+                expect( () => schema.parse( '500ms' ) ).toThrow();
+                expect( () => schema.parse( '1h 1s' ) ).toThrow();
+            } );
+
+            test( 'should show the time string in default messages', () => {
+                expect( zodTimeString.min( '1s' ).safeParse( '500ms' ).error?.issues[ 0 ]?.message )
+                    .toBe( 'Value must be greater than or equal to 1s' );
+                expect( zodTimeString.max( '1h 30m' ).safeParse( '2h' ).error?.issues[ 0 ]?.message )
+                    .toBe( 'Value must be less than or equal to 1h 30m' );
+            } );
+
+            test( 'should convert time string bounds to the output unit', () => {
+                const schema = zodTimeString.in( TimeUnit.SECOND ).min( '1m' ).max( '1h' );
+
+                expect( schema.parse( '5m' ) ).toBe( 300 );
+                expect( () => schema.parse( '30s' ) ).toThrow();
+                expect( () => schema.parse( '2h' ) ).toThrow();
+            } );
+
+            test( 'should parse bounds with the schema grammar', () => {
+                expect( zodIsoDuration.max( 'PT1H' ).parse( 'PT30M' ) ).toBe( 1800000 );
+                expect( () => zodIsoDuration.max( 'PT1H' ).parse( 'PT2H' ) ).toThrow();
+                expect( () => zodIsoDuration.max( '1h' ) ).toThrow();
+            } );
+
+            test( 'should throw when a bound cannot be parsed', () => {
+                expect( () => zodTimeString.min( 'soon' ) ).toThrow();
+                expect( () => zodTimeString.max( '5z' ) ).toThrow();
+            } );
+        } );
+
         describe( 'chaining validation methods', () => {
             test( 'should allow chaining positive() with min() and max()', () => {
                 const schema = zodTimeString.positive().min( 1000 ).max( 10000 );
@@ -276,10 +510,19 @@ describe( 'timeStringSchema', () => {
                 }
             } );
 
-            // Note: The unit error message test has been removed because
-            // the current implementation doesn't separate format errors from unit errors.
-            // The FULL_PATTERN regex checks both format and unit together, so we can't
-            // test unit errors separately.
+            test( 'should support custom unit error message', () => {
+                const customMsg = 'Custom unit error';
+                const schema = zodTimeString.withErrorMessages( {
+                    invalidUnitError: customMsg
+                } );
+
+                try {
+                    schema.parse( '1h 5z' );
+                    fail( 'Should have thrown an error' );
+                } catch ( error: any ) {
+                    expect( error.issues[ 0 ].message ).toBe( customMsg );
+                }
+            } );
 
             test( 'should support multiple custom error message options', () => {
                 const formatMsg = 'Custom format error';
@@ -522,4 +765,1419 @@ describe( 'timeStringSchema', () => {
             } );
         } );
     } );
-} );
\ No newline at end of file
+
+    describe( 'ISO 8601 durations', () => {
+        test( 'should parse date and time designators', () => {
+            expect( zodIsoDuration.parse( 'PT1H30M' ) ).toBe( 5400000 );
+            expect( zodIsoDuration.parse( 'P3DT4H' ) ).toBe( 273600000 );
+            expect( zodIsoDuration.parse( 'PT45S' ) ).toBe( 45000 );
+            expect( zodIsoDuration.parse( 'P1Y' ) ).toBe( 31536000000 );
+            expect( zodIsoDuration.parse( 'P2M' ) ).toBe( 5184000000 );
+        } );
+
+        test( 'should parse the week form', () => {
+            expect( zodIsoDuration.parse( 'P2W' ) ).toBe( 1209600000 );
+        } );
+
+        test( 'should parse fractional values in the last component', () => {
+            expect( zodIsoDuration.parse( 'PT1.5S' ) ).toBe( 1500 );
+            expect( zodIsoDuration.parse( 'PT0,5H' ) ).toBe( 1800000 );
+            expect( () => zodIsoDuration.parse( 'P1.5DT1H' ) ).toThrow();
+        } );
+
+        test( 'should handle negative durations', () => {
+            expect( zodIsoDuration.parse( '-PT1H' ) ).toBe( -3600000 );
+            expect( zodIsoDuration.parse( 'PT-1H-30M' ) ).toBe( -5400000 );
+        } );
+
+        test( 'should reject malformed designators', () => {
+            expect( () => zodIsoDuration.parse( 'P' ) ).toThrow();
+            expect( () => zodIsoDuration.parse( 'PT' ) ).toThrow();
+            expect( () => zodIsoDuration.parse( 'P1DT' ) ).toThrow();
+            expect( () => zodIsoDuration.parse( 'P1H' ) ).toThrow();
+            expect( () => zodIsoDuration.parse( 'PT1M1H' ) ).toThrow();
+            expect( () => zodIsoDuration.parse( '1h' ) ).toThrow();
+        } );
+
+        test( 'should report unknown designators as unit errors', () => {
+            const schema = zodIsoDuration.withErrorMessages( {
+                invalidUnitError: ( invalid ) => `Unknown designator ${ invalid }`
+            } );
+
+            const result = schema.safeParse( 'PT1X' );
+            expect( result.error?.issues[ 0 ]?.message ).toBe( 'Unknown designator X' );
+        } );
+
+        test( 'should support chainable validation methods', () => {
+            const schema = zodIsoDuration.positive().max( 3600000 );
+
+            expect( schema.parse( 'PT30M' ) ).toBe( 1800000 );
+            expect( () => schema.parse( 'PT2H' ) ).toThrow();
+            expect( () => schema.parse( '-PT1M' ) ).toThrow();
+        } );
+    } );
+
+    describe( 'codec', () => {
+        test( 'should decode time strings to milliseconds', () => {
+            const codec = zodTimeString.codec();
+
+            expect( z.decode( codec, '1h 30m' ) ).toBe( 5400000 );
+            expect( codec.parse( '2 minutes' ) ).toBe( 120000 );
+        } );
+
+        test( 'should encode milliseconds as compound time strings', () => {
+            const codec = zodTimeString.codec();
+
+            expect( z.encode( codec, 5400000 ) ).toBe( '1h 30m' );
+            expect( z.encode( codec, -1500 ) ).toBe( '-1s 500ms' );
+            expect( z.encode( zodTimeString.codec( { style: 'long' } ), 5400000 ) ).toBe( '1 hour 30 minutes' );
+        } );
+
+        test( 'should encode in a single unit', () => {
+            expect( z.encode( zodTimeString.codec( { encodeAs: TimeUnit.MINUTE } ), 5400000 ) ).toBe( '90m' );
+            expect( z.encode( zodTimeString.codec( { encodeAs: TimeUnit.HOUR } ), 5400000 ) ).toBe( '1.5h' );
+            expect( () => zodTimeString.codec( { encodeAs: 'fortnight' as TimeUnit } ) ).toThrow();
+        } );
+
+        test( 'should encode values in the output unit', () => {
+            const codec = zodTimeString.in( TimeUnit.SECOND ).codec();
+
+            expect( z.decode( codec, '1m 30s' ) ).toBe( 90 );
+            expect( z.encode( codec, 90 ) ).toBe( '1m 30s' );
+        } );
+
+        test( 'should apply chained validation on decode', () => {
+            const codec = zodTimeString.positive().max( '2h' ).codec();
+
+            expect( z.decode( codec, '1h' ) ).toBe( 3600000 );
+            expect( codec.safeParse( '-5m' ).error?.issues[ 0 ]?.message ).toBe( 'Value must be positive' );
+            expect( codec.safeParse( '3h' ).error?.issues[ 0 ]?.message ).toBe( 'Value must be less than or equal to 2h' );
+            expect( codec.safeParse( 'abc' ).error?.issues[ 0 ]?.message ).toBe( 'Invalid time format: abc' );
+        } );
+
+        test( 'should round trip config objects', () => {
+            const config = z.object( { timeout: zodTimeString.codec(), retryDelay: zodTimeString.codec() } );
+
+            const decoded = z.decode( config, { timeout: '1h 30m', retryDelay: '1.5s' } );
+            expect( decoded ).toEqual( { timeout: 5400000, retryDelay: 1500 } );
+            expect( z.encode( config, { ...decoded, timeout: 7200000 } ) ).toEqual( { timeout: '2h', retryDelay: '1s 500ms' } );
+        } );
+
+        test( 'should report issues at the field path', () => {
+            const config = z.object( { timeout: zodTimeString.positive().codec() } );
+
+            expect( config.safeParse( { timeout: '-1s' } ).error?.issues[ 0 ]?.path ).toEqual( [ 'timeout' ] );
+        } );
+
+        test( 'should encode ISO 8601 durations', () => {
+            const codec = zodIsoDuration.codec();
+
+            expect( z.encode( codec, 5400500 ) ).toBe( 'PT1H30M0.5S' );
+            expect( z.encode( codec, 97200000 ) ).toBe( 'P1DT3H' );
+            expect( z.encode( codec, -90000 ) ).toBe( '-PT1M30S' );
+            expect( z.encode( codec, 0 ) ).toBe( 'PT0S' );
+            expect( z.encode( zodIsoDuration.codec( { encodeAs: TimeUnit.WEEK } ), 1209600000 ) ).toBe( 'P2W' );
+            expect( z.decode( codec, z.encode( codec, 5400500 ) ) ).toBe( 5400500 );
+        } );
+    } );
+
+    describe( 'calendar arithmetic', () => {
+        const DAY = 24 * 60 * 60 * 1000;
+        const jan31 = new Date( '2024-01-31T12:00:00.000Z' );
+
+        test( 'should clamp months to the end of shorter months', () => {
+            expect( zodTimeString.relativeTo( jan31 ).parse( '1mo' ) ).toBe( 29 * DAY );
+            expect( zodTimeString.relativeTo( new Date( '2023-01-31T12:00:00.000Z' ) ).parse( '1mo' ) ).toBe( 28 * DAY );
+            expect( zodTimeString.relativeTo( new Date( '2024-03-31T00:00:00.000Z' ) ).parse( '-1mo' ) ).toBe( -31 * DAY );
+        } );
+
+        test( 'should count leap days in years', () => {
+            expect( zodTimeString.relativeTo( new Date( '2023-03-01T00:00:00.000Z' ) ).parse( '1y' ) ).toBe( 366 * DAY );
+            expect( zodTimeString.relativeTo( new Date( '2024-02-29T00:00:00.000Z' ) ).parse( '1y' ) ).toBe( 365 * DAY );
+        } );
+
+        test( 'should apply months before the other units', () => {
+            expect( zodTimeString.relativeTo( jan31 ).parse( '1mo 2d' ) ).toBe( 31 * DAY );
+            expect( zodTimeString.relativeTo( jan31 ).parse( '1h' ) ).toBe( 3600000 );
+        } );
+
+        test( 'should take fractional months from the following month', () => {
+            expect( zodTimeString.relativeTo( jan31 ).parse( '1.5mo' ) ).toBe( 44.5 * DAY );
+            expect( zodTimeString.relativeTo( jan31, { output: 'date' } ).parse( '1.5y' ).toISOString() ).toBe( '2025-07-31T12:00:00.000Z' );
+        } );
+
+        test( 'should return the resulting date', () => {
+            const schema = zodTimeString.relativeTo( jan31, { output: 'date' } );
+
+            expect( schema.parse( '1mo' ).toISOString() ).toBe( '2024-02-29T12:00:00.000Z' );
+            expect( schema.parse( '1mo 12h' ).toISOString() ).toBe( '2024-03-01T00:00:00.000Z' );
+            expect( schema.parse( '-1y' ).toISOString() ).toBe( '2023-01-31T12:00:00.000Z' );
+        } );
+
+        test( 'should read the anchor from a clock on every parse', () => {
+            let now = new Date( '2023-02-01T00:00:00.000Z' ).getTime();
+            const schema = zodTimeString.relativeTo( () => now );
+
+            expect( schema.parse( '1mo' ) ).toBe( 28 * DAY );
+            now = new Date( '2023-03-01T00:00:00.000Z' ).getTime();
+            expect( schema.parse( '1mo' ) ).toBe( 31 * DAY );
+        } );
+
+        test( 'should compare time string bounds on the calendar', () => {
+            const february = zodTimeString.relativeTo( new Date( '2023-02-01T00:00:00.000Z' ) ).max( '1mo' );
+            const january = zodTimeString.relativeTo( new Date( '2023-01-01T00:00:00.000Z' ) ).max( '1mo' );
+
+            expect( february.safeParse( '29d' ).success ).toBe( false );
+            expect( january.safeParse( '29d' ).success ).toBe( true );
+        } );
+
+        test( 'should support other output units and ISO 8601 durations', () => {
+            expect( zodTimeString.relativeTo( jan31 ).in( TimeUnit.DAY ).parse( '1mo' ) ).toBe( 29 );
+            expect( zodIsoDuration.relativeTo( jan31 ).parse( 'P1M' ) ).toBe( 29 * DAY );
+        } );
+
+        test( 'should reject months and years that lead outside the range of dates', () => {
+            const result = zodTimeString.relativeTo( new Date( '2024-01-31T00:00:00.000Z' ) ).safeParse( '1000000000y' );
+
+            expect( result.error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Time value is outside the range of dates: 1000000000y',
+                params: { code: TimeStringIssueCode.UNREPRESENTABLE, segment: '1000000000y', offset: 0 },
+            } );
+            expect( zodTimeString.relativeTo( new Date( '2024-01-31T00:00:00.000Z' ) ).safeParse( '1.5mo 1000000000y' ).success ).toBe( false );
+            expect( zodTimeString.fromNow( { clock: 0 } ).safeParse( 'in 1000000000y' ).success ).toBe( false );
+            expect( zodTimeString.relativeTo( new Date( '2024-01-31T00:00:00.000Z' ) ).max( '1000000000y' ).parse( '1mo' ) ).toBe( 29 * DAY );
+        } );
+
+        test( 'should not use the calendar without months or years', () => {
+            expect( zodTimeString.relativeTo( 8.64e15 ).parse( '1d' ) ).toBe( DAY );
+        } );
+
+        test( 'should reject invalid anchors', () => {
+            expect( () => zodTimeString.relativeTo( new Date( 'invalid' ) ) ).toThrow();
+            expect( () => zodTimeString.relativeTo( () => NaN ).parse( '1mo' ) ).toThrow();
+        } );
+    } );
+
+    describe( 'month and year conventions', () => {
+        const DAY = 24 * 60 * 60 * 1000;
+
+        test( 'should default to 30-day months and 365-day years', () => {
+            expect( zodTimeString.convention ).toEqual( { name: 'default', month: 30 * DAY, year: 365 * DAY } );
+            expect( zodIsoDuration.convention.name ).toBe( 'default' );
+        } );
+
+        test( 'should select a named convention', () => {
+            const billing = createTimeString( { convention: 'billing' } );
+            const gregorian = createTimeString( { convention: 'gregorian' } );
+            const julian = zodTimeString.withConvention( 'julian' );
+
+            expect( billing.parse( '1y' ) ).toBe( 360 * DAY );
+            expect( billing.parse( '2mo' ) ).toBe( 60 * DAY );
+            expect( gregorian.parse( '1mo' ) ).toBe( 2629746000 );
+            expect( gregorian.parse( '1y' ) ).toBe( 31556952000 );
+            expect( julian.parse( '1y' ) ).toBe( 31557600000 );
+            expect( julian.convention ).toEqual( { name: 'julian', ...MONTH_YEAR_CONVENTIONS.julian } );
+        } );
+
+        test( 'should accept explicit lengths', () => {
+            const schema = zodTimeString.withConvention( { year: 365.25 * DAY } );
+
+            expect( schema.parse( '1y' ) ).toBe( 31557600000 );
+            expect( schema.parse( '1mo' ) ).toBe( 30 * DAY );
+            expect( schema.convention ).toEqual( { name: 'custom', month: 30 * DAY, year: 365.25 * DAY } );
+        } );
+
+        test( 'should keep the convention through chained methods', () => {
+            const schema = zodTimeString.withConvention( 'billing' ).in( TimeUnit.DAY ).positive().max( '1y' );
+
+            expect( schema.convention.name ).toBe( 'billing' );
+            expect( schema.parse( '1y' ) ).toBe( 360 );
+            expect( schema.safeParse( '361d' ).success ).toBe( false );
+        } );
+
+        test( 'should report custom month and year units as a custom convention', () => {
+            const schema = createTimeString( { units: { mo: { ms: 28 * DAY, aliases: [ 'mo', 'month', 'months' ] } } } );
+
+            expect( schema.convention ).toEqual( { name: 'custom', month: 28 * DAY, year: 365 * DAY } );
+            expect( schema.parse( '1mo' ) ).toBe( 28 * DAY );
+        } );
+
+        test( 'should apply conventions to ISO 8601 durations', () => {
+            expect( zodIsoDuration.withConvention( 'billing' ).parse( 'P1Y' ) ).toBe( 360 * DAY );
+        } );
+
+        test( 'should encode with the active convention', () => {
+            const codec = zodTimeString.withConvention( 'gregorian' ).codec( { encodeAs: TimeUnit.MONTH } );
+
+            expect( z.encode( codec, 2629746000 ) ).toBe( '1mo' );
+        } );
+
+        test( 'should reject unknown conventions and invalid lengths', () => {
+            expect( () => zodTimeString.withConvention( 'lunar' as 'default' ) ).toThrow();
+            expect( () => zodTimeString.withConvention( { month: 0 } ) ).toThrow();
+            expect( () => createTimeString( { convention: { year: Infinity } } ) ).toThrow();
+        } );
+    } );
+
+    describe( 'detailed output', () => {
+        test( 'should describe what was written', () => {
+            const duration = zodTimeString.detailed().parse( ' 1 hour, 30m ' );
+
+            expect( duration.input ).toBe( '1 hour, 30m' );
+            expect( duration.segments ).toEqual( [
+                { value: 1, unit: TimeUnit.HOUR },
+                { value: 30, unit: TimeUnit.MINUTE },
+            ] );
+            expect( duration.ms ).toBe( 5400000 );
+            expect( duration.value ).toBe( 5400000 );
+            expect( duration.unit ).toBe( TimeUnit.MILLISECOND );
+        } );
+
+        test( 'should tell equal durations apart by their input', () => {
+            const schema = zodTimeString.detailed();
+
+            expect( schema.parse( '90m' ).segments ).toEqual( [ { value: 90, unit: TimeUnit.MINUTE } ] );
+            expect( schema.parse( '1.5h' ).segments ).toEqual( [ { value: 1.5, unit: TimeUnit.HOUR } ] );
+            expect( schema.parse( '90m' ).ms ).toBe( schema.parse( '1.5h' ).ms );
+        } );
+
+        test( 'should normalize signs and bare numbers', () => {
+            const schema = zodTimeString.detailed();
+
+            expect( schema.parse( '-1h 30m' ).segments ).toEqual( [
+                { value: -1, unit: TimeUnit.HOUR },
+                { value: -30, unit: TimeUnit.MINUTE },
+            ] );
+            expect( schema.parse( '250' ).segments ).toEqual( [ { value: 250, unit: TimeUnit.MILLISECOND } ] );
+        } );
+
+        test( 'should convert the total to other units', () => {
+            const duration = zodTimeString.detailed().parse( '90m' );
+
+            expect( duration.to( TimeUnit.HOUR ) ).toBe( 1.5 );
+            expect( duration.to( TimeUnit.SECOND ) ).toBe( 5400 );
+            expect( () => duration.to( 'fortnight' ) ).toThrow();
+        } );
+
+        test( 'should report the total in the output unit', () => {
+            const duration = zodTimeString.in( TimeUnit.MINUTE ).detailed().parse( '90s' );
+
+            expect( duration.value ).toBe( 1 );
+            expect( duration.unit ).toBe( TimeUnit.MINUTE );
+            expect( duration.ms ).toBe( 90000 );
+        } );
+
+        test( 'should apply chained validation to the total', () => {
+            const schema = zodTimeString.detailed().positive().min( '1m' ).max( '2h' );
+
+            expect( schema.parse( '90m' ).ms ).toBe( 5400000 );
+            expect( schema.safeParse( '-5m' ).error?.issues[ 0 ]?.message ).toBe( 'Value must be positive' );
+            expect( schema.safeParse( '30s' ).error?.issues[ 0 ]?.message ).toBe( 'Value must be greater than or equal to 1m' );
+            expect( schema.safeParse( '3h' ).error?.issues[ 0 ]?.message ).toBe( 'Value must be less than or equal to 2h' );
+            expect( zodTimeString.detailed().negative().safeParse( '1s' ).success ).toBe( false );
+        } );
+
+        test( 'should report parse errors like the base schema', () => {
+            expect( zodTimeString.detailed().safeParse( '5x' ).error?.issues[ 0 ]?.message ).toBe( 'Invalid time unit: x' );
+        } );
+
+        test( 'should describe ISO 8601 durations', () => {
+            const duration = zodIsoDuration.detailed().parse( 'PT1H30M' );
+
+            expect( duration.segments ).toEqual( [
+                { value: 1, unit: TimeUnit.HOUR },
+                { value: 30, unit: TimeUnit.MINUTE },
+            ] );
+            expect( duration.ms ).toBe( 5400000 );
+        } );
+    } );
+
+    describe( 'issue codes', () => {
+        const issueOf = ( schema: z.ZodType, input: unknown ) => schema.safeParse( input ).error?.issues[ 0 ] as z.core.$ZodIssueCustom;
+
+        test( 'should report parse failures with a code, segment and offset', () => {
+            expect( issueOf( zodTimeString, 'abc' ).params ).toEqual( {
+                code: TimeStringIssueCode.INVALID_FORMAT,
+                segment: 'abc',
+                offset: 0,
+            } );
+            expect( issueOf( zodTimeString, '1h 30x' ).params ).toEqual( {
+                code: TimeStringIssueCode.INVALID_UNIT,
+                segment: '30x',
+                offset: 5,
+                unit: 'x',
+            } );
+            expect( issueOf( zodTimeString, '1h and' ).params ).toEqual( {
+                code: TimeStringIssueCode.INVALID_FORMAT,
+                segment: 'and',
+                offset: 3,
+            } );
+        } );
+
+        test( 'should count offsets from the untrimmed input', () => {
+            expect( issueOf( zodTimeString, '  5 parsecs' ).params?.offset ).toBe( 4 );
+            expect( issueOf( zodIsoDuration, ' PT1X' ).params ).toMatchObject( { code: TimeStringIssueCode.INVALID_UNIT, unit: 'X', offset: 4 } );
+        } );
+
+        test( 'should report values that cannot be represented', () => {
+            expect( issueOf( zodTimeString, '1000000y' ).params ).toMatchObject( {
+                code: TimeStringIssueCode.UNREPRESENTABLE,
+                value: 31536000000000000,
+            } );
+        } );
+
+        test( 'should report failed checks with the parsed value', () => {
+            expect( issueOf( zodTimeString.positive(), '-5s' ).params ).toEqual( { code: TimeStringIssueCode.NOT_POSITIVE, value: -5000 } );
+            expect( issueOf( zodTimeString.negative(), '5s' ).params ).toEqual( { code: TimeStringIssueCode.NOT_NEGATIVE, value: 5000 } );
+            expect( issueOf( zodTimeString.min( '1m' ), '5s' ).params ).toEqual( { code: TimeStringIssueCode.TOO_SMALL, minimum: 60000, value: 5000 } );
+            expect( issueOf( zodTimeString.max( 1000 ), '5s' ).params ).toEqual( { code: TimeStringIssueCode.TOO_BIG, maximum: 1000, value: 5000 } );
+        } );
+
+        test( 'should keep custom messages and pass the value to message functions', () => {
+            const schema = zodTimeString.positive( ( invalid ) => `Value ${ invalid } must be positive` ).max( 1000, 'Too long' );
+
+            expect( issueOf( schema, '-5s' ).message ).toBe( 'Value -5000 must be positive' );
+            expect( issueOf( schema, '5s' ).message ).toBe( 'Too long' );
+        } );
+
+        test( 'should use z.config customError for default messages', () => {
+            z.config( {
+                customError: ( issue ) => issue.code === 'custom' && issue.params?.code === TimeStringIssueCode.INVALID_UNIT
+                    ? `Unbekannte Einheit: ${ issue.params.unit }`
+                    : undefined,
+            } );
+
+            try {
+                expect( issueOf( zodTimeString, '5x' ).message ).toBe( 'Unbekannte Einheit: x' );
+                expect( issueOf( zodTimeString, 'abc' ).message ).toBe( 'Invalid time format: abc' );
+                expect( issueOf( zodTimeString.withErrorMessages( { invalidUnitError: 'Bad unit' } ), '5x' ).message ).toBe( 'Bad unit' );
+            } finally {
+                z.config( { customError: undefined } );
+            }
+        } );
+
+        test( 'should keep its own message over the error map of a single parse', () => {
+            expect( zodTimeString.safeParse( 'abc', { error: () => 'x' } ).error?.issues[ 0 ]?.message ).toBe( 'Invalid time format: abc' );
+        } );
+
+        test( 'should report every failed check', () => {
+            const result = zodTimeString.positive().min( 1000 ).safeParse( '-5s' );
+
+            expect( result.error?.issues.map( ( issue ) => ( issue as z.core.$ZodIssueCustom ).params?.code ) ).toEqual( [
+                TimeStringIssueCode.NOT_POSITIVE,
+                TimeStringIssueCode.TOO_SMALL,
+            ] );
+        } );
+    } );
+
+    describe( 'unit suggestions', () => {
+        const messageOf = ( schema: z.ZodType, input: string ) => schema.safeParse( input ).error?.issues[ 0 ]?.message;
+
+        test( 'should suggest the closest unit in the default message', () => {
+            expect( messageOf( zodTimeString, '5 mintues' ) ).toBe( "Unknown unit 'mintues'; did you mean 'minutes'?" );
+            expect( messageOf( zodTimeString, '3 hrous' ) ).toBe( "Unknown unit 'hrous'; did you mean 'hours'?" );
+            expect( messageOf( zodTimeString, '1 Secnod' ) ).toBe( "Unknown unit 'Secnod'; did you mean 'second'?" );
+            expect( messageOf( zodTimeString, '1h 5 mintues' ) ).toBe( "Unknown unit 'mintues'; did you mean 'minutes'? (in segment \"5 mintues\")" );
+        } );
+
+        test( 'should not suggest units that are too different', () => {
+            expect( messageOf( zodTimeString, '5x' ) ).toBe( 'Invalid time unit: x' );
+            expect( messageOf( zodTimeString, '5 parsecs' ) ).toBe( 'Invalid time unit: parsecs' );
+        } );
+
+        test( 'should not suggest units for long unknown text', () => {
+            const unit = 'a'.repeat( 80000 );
+
+            expect( messageOf( zodTimeString, `5${ unit }` ) ).toBe( `Invalid time unit: ${ unit }` );
+            expect( messageOf( zodTimeString, '5 minutesss' ) ).toBe( "Unknown unit 'minutesss'; did you mean 'minutes'?" );
+        } );
+
+        test( 'should include the suggestion in the issue params', () => {
+            const issue = zodTimeString.safeParse( '5 mintues' ).error?.issues[ 0 ] as z.core.$ZodIssueCustom;
+
+            expect( issue.params ).toMatchObject( { unit: 'mintues', suggestion: 'minutes' } );
+        } );
+
+        test( 'should suggest custom units', () => {
+            const schema = createTimeString( { units: { sprint: { ms: 1209600000, aliases: [ 'sprint', 'sprints' ] } } } );
+
+            expect( messageOf( schema, '2 spritns' ) ).toBe( "Unknown unit 'spritns'; did you mean 'sprints'?" );
+        } );
+
+        test( 'should pass the suggestion to invalidUnitError callbacks', () => {
+            const schema = zodTimeString.withErrorMessages( {
+                invalidUnitError: ( unit, suggestion ) => suggestion ? `${ unit }? Try ${ suggestion }` : `${ unit }?`,
+            } );
+
+            expect( messageOf( schema, '5 mintues' ) ).toBe( 'mintues? Try minutes' );
+            expect( messageOf( schema, '5x' ) ).toBe( 'x?' );
+        } );
+    } );
+
+    describe( 'strict mode and allowed units', () => {
+        const issueOf = ( schema: z.ZodType, input: string ) => schema.safeParse( input ).error?.issues[ 0 ] as z.core.$ZodIssueCustom;
+
+        test( 'should reject bare numbers in strict mode', () => {
+            const schema = zodTimeString.strict();
+
+            expect( schema.parse( '30s' ) ).toBe( 30000 );
+            expect( issueOf( schema, '30' ).message ).toBe( 'Missing time unit: 30' );
+            expect( issueOf( schema, ' 30' ).params ).toEqual( { code: TimeStringIssueCode.MISSING_UNIT, segment: '30', offset: 1 } );
+            expect( createTimeString( { strict: true } ).safeParse( '30' ).success ).toBe( false );
+        } );
+
+        test( 'should read bare numbers in the default unit', () => {
+            expect( zodTimeString.defaultUnit( TimeUnit.SECOND ).parse( '30' ) ).toBe( 30000 );
+            expect( zodTimeString.defaultUnit( TimeUnit.SECOND ).parse( '-1.5' ) ).toBe( -1500 );
+            expect( createTimeString( { defaultUnit: TimeUnit.MINUTE } ).parse( '2' ) ).toBe( 120000 );
+            expect( zodTimeString.defaultUnit( TimeUnit.SECOND ).detailed().parse( '30' ).segments ).toEqual( [ { value: 30, unit: TimeUnit.SECOND } ] );
+            expect( () => zodTimeString.defaultUnit( 'fortnight' ) ).toThrow();
+            expect( () => createTimeString( { defaultUnit: 'fortnight' } ) ).toThrow();
+        } );
+
+        test( 'should read bare number bounds in the default unit', () => {
+            const schema = zodTimeString.defaultUnit( TimeUnit.SECOND ).max( '30' );
+
+            expect( schema.safeParse( '30s' ).success ).toBe( true );
+            expect( schema.safeParse( '31s' ).success ).toBe( false );
+        } );
+
+        test( 'should only accept the allowed units', () => {
+            const schema = zodTimeString.units( [ TimeUnit.SECOND, TimeUnit.MINUTE, TimeUnit.HOUR ] );
+
+            expect( schema.parse( '1h 30m 15s' ) ).toBe( 5415000 );
+            expect( issueOf( schema, '2d' ).message ).toBe( "Time unit 'd' is not allowed; use one of: s, m, h" );
+            expect( issueOf( schema, '1h 500ms' ).params ).toEqual( {
+                code: TimeStringIssueCode.UNIT_NOT_ALLOWED,
+                segment: '500ms',
+                offset: 3,
+                unit: TimeUnit.MILLISECOND,
+                allowed: [ TimeUnit.SECOND, TimeUnit.MINUTE, TimeUnit.HOUR ],
+            } );
+        } );
+
+        test( 'should apply the allowed units to bare numbers', () => {
+            const schema = zodTimeString.units( [ TimeUnit.SECOND ] );
+
+            expect( issueOf( schema, '30' ).params?.code ).toBe( TimeStringIssueCode.UNIT_NOT_ALLOWED );
+            expect( schema.defaultUnit( TimeUnit.SECOND ).parse( '30' ) ).toBe( 30000 );
+        } );
+
+        test( 'should support custom messages', () => {
+            const schema = zodTimeString.strict().units( [ TimeUnit.SECOND ] ).withErrorMessages( {
+                missingUnitError: ( value ) => `Add a unit to ${ value }`,
+                unitNotAllowedError: ( unit ) => `No ${ unit } here`,
+            } );
+
+            expect( issueOf( schema, '30' ).message ).toBe( 'Add a unit to 30' );
+            expect( issueOf( schema, '1m' ).message ).toBe( 'No m here' );
+        } );
+
+        test( 'should restrict ISO 8601 durations', () => {
+            expect( zodIsoDuration.units( [ TimeUnit.MINUTE ] ).safeParse( 'PT1H' ).success ).toBe( false );
+        } );
+
+        test( 'should encode with the allowed units', () => {
+            const codec = zodTimeString.units( [ TimeUnit.HOUR, TimeUnit.MINUTE ] ).codec();
+
+            expect( z.encode( codec, 97200000 ) ).toBe( '27h' );
+        } );
+
+        test( 'should reject unknown or empty unit lists', () => {
+            expect( () => zodTimeString.units( [] ) ).toThrow();
+            expect( () => zodTimeString.units( [ 'fortnight' ] ) ).toThrow();
+        } );
+    } );
+
+    describe( 'immutable chaining', () => {
+        type Chain = ( schema: TimeStringSchema ) => TimeStringSchema;
+
+        const constrain: Chain = ( schema ) => schema.positive().min( '1s' ).max( '1h' );
+        const expectConstrained = ( schema: z.ZodType ) => {
+            expect( schema.safeParse( '30s' ).success ).toBe( true );
+            expect( schema.safeParse( '500ms' ).success ).toBe( false );
+            expect( schema.safeParse( '2h' ).success ).toBe( false );
+            expect( schema.safeParse( '-30s' ).success ).toBe( false );
+        };
+
+        const methods: [ string, Chain ][] = [
+            [ 'withErrorMessages', ( schema ) => schema.withErrorMessages( { invalidUnitError: 'Bad unit' } ) ],
+            [ 'in', ( schema ) => schema.in( TimeUnit.SECOND ) ],
+            [ 'rounding', ( schema ) => schema.rounding( 'ceil' ) ],
+            [ 'relativeTo', ( schema ) => schema.relativeTo( new Date( '2024-01-31T00:00:00.000Z' ) ) ],
+            [ 'withConvention', ( schema ) => schema.withConvention( 'billing' ) ],
+            [ 'strict', ( schema ) => schema.strict() ],
+            [ 'defaultUnit', ( schema ) => schema.defaultUnit( TimeUnit.SECOND ) ],
+            [ 'units', ( schema ) => schema.units( [ TimeUnit.MILLISECOND, TimeUnit.SECOND, TimeUnit.MINUTE, TimeUnit.HOUR ] ) ],
+            [ 'acceptNumbers', ( schema ) => schema.acceptNumbers() ],
+            [ 'positive', ( schema ) => schema.positive() ],
+            [ 'min', ( schema ) => schema.min( 0 ) ],
+            [ 'max', ( schema ) => schema.max( '2d' ) ],
+        ];
+
+        for ( const [ name, method ] of methods ) {
+            test( `should keep checks chained before ${ name }`, () => {
+                expectConstrained( method( constrain( zodTimeString ) ) );
+            } );
+
+            test( `should keep ${ name } when checks are chained after it`, () => {
+                expectConstrained( constrain( method( zodTimeString ) ) );
+            } );
+        }
+
+        test( 'should combine every method in both orders', () => {
+            const chains = methods.map( ( [ , method ] ) => method );
+            const forward = chains.reduce( ( schema, method ) => method( schema ), zodTimeString );
+            const backward = chains.slice().reverse().reduce( ( schema, method ) => method( schema ), zodTimeString );
+
+            for ( const schema of [ forward, backward ] ) {
+                expect( schema.parse( '30s' ) ).toBe( 30 );
+                expect( schema.safeParse( '2d' ).success ).toBe( false );
+                expect( schema.safeParse( '-30s' ).success ).toBe( false );
+                expect( schema.safeParse( '5x' ).error?.issues[ 0 ]?.message ).toBe( 'Bad unit' );
+                expect( schema.convention.name ).toBe( 'billing' );
+            }
+        } );
+
+        test( 'should keep the rounding policy when the output unit changes', () => {
+            expect( zodTimeString.rounding( 'none' ).in( TimeUnit.SECOND ).parse( '1500ms' ) ).toBe( 1.5 );
+            expect( zodTimeString.rounding( 'round' ).in( TimeUnit.SECOND ).parse( '1600ms' ) ).toBe( 2 );
+            expect( zodTimeString.rounding( 'round' ).in( TimeUnit.SECOND, 'floor' ).parse( '1600ms' ) ).toBe( 1 );
+        } );
+
+        test( 'should keep checks when switching to other outputs', () => {
+            const schema = constrain( zodTimeString );
+
+            expect( schema.bigint().parse( '30s' ) ).toBe( BigInt( 30000 ) );
+            expect( schema.bigint().safeParse( '2h' ).success ).toBe( false );
+            expect( schema.codec().safeParse( '500ms' ).success ).toBe( false );
+            expect( schema.relativeTo( new Date( 0 ), { output: 'date' } ).safeParse( '-30s' ).success ).toBe( false );
+            expectConstrained( schema.detailed() );
+            expectConstrained( zodTimeString.detailed().positive().min( '1s' ).max( '1h' ) );
+        } );
+
+        test( 'should keep min when error messages are set afterwards', () => {
+            const schema = zodTimeString.min( 1000 ).withErrorMessages( { invalidFormatError: 'Bad format' } );
+
+            expect( schema.safeParse( '500ms' ).error?.issues[ 0 ]?.message ).toBe( 'Value must be greater than or equal to 1000' );
+            expect( schema.safeParse( 'abc' ).error?.issues[ 0 ]?.message ).toBe( 'Bad format' );
+        } );
+
+        test( 'should merge error messages set in several calls', () => {
+            const schema = zodTimeString
+                .withErrorMessages( { invalidFormatError: 'Bad format' } )
+                .withErrorMessages( { invalidUnitError: 'Bad unit' } );
+
+            expect( schema.safeParse( 'abc' ).error?.issues[ 0 ]?.message ).toBe( 'Bad format' );
+            expect( schema.safeParse( '5x' ).error?.issues[ 0 ]?.message ).toBe( 'Bad unit' );
+        } );
+
+        test( 'should keep the meaning of numeric bounds when the output unit changes', () => {
+            const before = zodTimeString.min( 1000 ).in( TimeUnit.SECOND );
+            const after = zodTimeString.in( TimeUnit.SECOND ).min( 1 );
+
+            for ( const schema of [ before, after ] ) {
+                expect( schema.parse( '1s' ) ).toBe( 1 );
+                expect( schema.safeParse( '999ms' ).success ).toBe( false );
+            }
+            expect( before.safeParse( '999ms' ).error?.issues[ 0 ] ).toMatchObject( { params: { minimum: 1, value: 0 } } );
+        } );
+
+        test( 'should not change the schema a method is called on', () => {
+            const base = zodTimeString.min( '1s' );
+            base.max( '1m' );
+            base.in( TimeUnit.SECOND );
+            base.strict();
+
+            expect( base.parse( '2m' ) ).toBe( 120000 );
+            expect( base.parse( '2000' ) ).toBe( 2000 );
+        } );
+    } );
+
+    describe( 'numeric input', () => {
+        test( 'should reject numbers unless enabled', () => {
+            expect( zodTimeString.safeParse( 5000 ).success ).toBe( false );
+            expect( zodIsoDuration.safeParse( 5000 ).success ).toBe( false );
+        } );
+
+        test( 'should read numbers like bare numbers by default', () => {
+            const schema = zodTimeString.acceptNumbers();
+            expect( schema.parse( 5000 ) ).toBe( 5000 );
+            expect( schema.parse( '5s' ) ).toBe( 5000 );
+            expect( zodTimeString.defaultUnit( TimeUnit.SECOND ).acceptNumbers().parse( 5 ) ).toBe( 5000 );
+            expect( zodTimeString.strict().acceptNumbers().parse( 5 ) ).toBe( 5 );
+        } );
+
+        test( 'should read numbers in the given unit', () => {
+            const schema = zodTimeString.acceptNumbers( TimeUnit.SECOND );
+            expect( schema.parse( 1.5 ) ).toBe( 1500 );
+            expect( schema.parse( -2 ) ).toBe( -2000 );
+            expect( schema.in( TimeUnit.SECOND ).parse( 90 ) ).toBe( 90 );
+            expect( schema.parse( '90' ) ).toBe( 90 );
+        } );
+
+        test( 'should ignore strict mode and the allowed units for numbers', () => {
+            const schema = zodTimeString.strict().units( [ TimeUnit.MINUTE ] ).acceptNumbers( TimeUnit.SECOND );
+            expect( schema.parse( 30 ) ).toBe( 30000 );
+            expect( schema.safeParse( '30' ).success ).toBe( false );
+            expect( schema.safeParse( '30s' ).success ).toBe( false );
+        } );
+
+        test( 'should reject non-finite numbers', () => {
+            const schema = zodTimeString.acceptNumbers();
+            for ( const input of [ NaN, Infinity, -Infinity ] ) {
+                const result = schema.safeParse( input );
+                expect( result.success ).toBe( false );
+                expect( result.error?.issues[ 0 ] ).toMatchObject( {
+                    message: `Invalid time value: ${ input }`,
+                    params: { code: TimeStringIssueCode.INVALID_VALUE, segment: String( input ) },
+                } );
+            }
+            expect( schema.withErrorMessages( { invalidValueError: ( value ) => `Bad ${ value }` } ).safeParse( NaN ).error?.issues[ 0 ]?.message ).toBe( 'Bad NaN' );
+        } );
+
+        test( 'should reject other types', () => {
+            const schema = zodTimeString.acceptNumbers();
+            expect( schema.safeParse( true ).error?.issues[ 0 ]?.message ).toBe( 'Expected a time string or a number' );
+            expect( schema.safeParse( null ).success ).toBe( false );
+        } );
+
+        test( 'should apply chained checks to numbers and strings alike', () => {
+            const schema = zodTimeString.acceptNumbers( TimeUnit.SECOND ).positive().min( '1s' ).max( '1m' );
+            expect( schema.parse( 30 ) ).toBe( 30000 );
+            expect( schema.parse( '30s' ) ).toBe( 30000 );
+            expect( schema.safeParse( 0.5 ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.TOO_SMALL } } );
+            expect( schema.safeParse( 120 ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.TOO_BIG } } );
+            expect( schema.safeParse( -5 ).success ).toBe( false );
+        } );
+
+        test( 'should accept numbers in other outputs', () => {
+            const schema = zodTimeString.acceptNumbers( TimeUnit.MINUTE );
+            expect( schema.bigint().parse( 2 ) ).toBe( BigInt( 120000 ) );
+            expect( schema.detailed().parse( 2 ) ).toMatchObject( { input: '2', segments: [ { value: 2, unit: TimeUnit.MINUTE } ], ms: 120000 } );
+            expect( schema.relativeTo( 0, { output: 'date' } ).parse( 1 ) ).toEqual( new Date( 60000 ) );
+        } );
+
+        test( 'should accept numbers through createTimeString', () => {
+            expect( createTimeString( { acceptNumbers: true } ).parse( 250 ) ).toBe( 250 );
+            expect( createTimeString( { acceptNumbers: true, defaultUnit: TimeUnit.SECOND } ).parse( 2 ) ).toBe( 2000 );
+            expect( createTimeString( { acceptNumbers: TimeUnit.HOUR } ).parse( 1 ) ).toBe( 3600000 );
+            expect( createTimeString( { acceptNumbers: false } ).safeParse( 1 ).success ).toBe( false );
+            expect( () => createTimeString( { acceptNumbers: 'fortnight' } ) ).toThrow( 'Unknown number time unit "fortnight"' );
+            expect( () => zodTimeString.acceptNumbers( 'fortnight' ) ).toThrow( 'Unknown number time unit "fortnight"' );
+        } );
+    } );
+
+    describe( 'clock durations', () => {
+        test( 'should parse hours, minutes and seconds', () => {
+            expect( zodClockDuration.parse( '01:30:00' ) ).toBe( 5400000 );
+            expect( zodClockDuration.parse( '1:02:03.500' ) ).toBe( 3723500 );
+            expect( zodClockDuration.parse( '1:02:03,25' ) ).toBe( 3723250 );
+            expect( zodClockDuration.parse( '36:00:00' ) ).toBe( 129600000 );
+        } );
+
+        test( 'should parse days', () => {
+            expect( zodClockDuration.parse( '2:04:00:00' ) ).toBe( 187200000 );
+            expect( zodClockDuration.parse( '0:23:59:59.999' ) ).toBe( 86399999 );
+        } );
+
+        test( 'should read two fields as minutes and seconds by default', () => {
+            expect( zodClockDuration.parse( '90:00' ) ).toBe( 5400000 );
+            expect( zodClockDuration.parse( '1:30.5' ) ).toBe( 90500 );
+        } );
+
+        test( 'should read two fields as hours and minutes when configured', () => {
+            const schema = createClockDuration( { twoPart: 'hh:mm' } );
+            expect( schema.parse( '1:30' ) ).toBe( 5400000 );
+            expect( schema.parse( '1:30:15' ) ).toBe( 5415000 );
+            expect( schema.safeParse( '1:30.5' ).success ).toBe( false );
+            expect( () => createClockDuration( { twoPart: 'ss:ms' as 'mm:ss' } ) ).toThrow( 'Unknown two-part clock format "ss:ms"' );
+        } );
+
+        test( 'should handle signs and whitespace', () => {
+            expect( zodClockDuration.parse( '-1:00' ) ).toBe( -60000 );
+            expect( zodClockDuration.parse( '+1:00' ) ).toBe( 60000 );
+            expect( zodClockDuration.parse( ' 1:00 ' ) ).toBe( 60000 );
+        } );
+
+        test( 'should reject fields beyond their range', () => {
+            const result = zodClockDuration.safeParse( '1:75:00' );
+            expect( result.error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Invalid time value: 1:75:00 (in segment "75")',
+                params: { code: TimeStringIssueCode.INVALID_VALUE, segment: '75', offset: 2 },
+            } );
+            expect( zodClockDuration.safeParse( '10:60' ).success ).toBe( false );
+            expect( zodClockDuration.safeParse( '1:24:00:00' ).success ).toBe( false );
+            expect( createClockDuration( { twoPart: 'hh:mm' } ).safeParse( '1:60' ).success ).toBe( false );
+        } );
+
+        test( 'should reject malformed clock durations', () => {
+            for ( const input of [ '', '1', '1:2:03', '1:02:03.5:00', '1:02.5:03', '1:02:03:04:05', '1::00', '1h:00', '-', '1:00:' ] ) {
+                expect( zodClockDuration.safeParse( input ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.INVALID_FORMAT } } );
+            }
+        } );
+
+        test( 'should support chainable validation methods', () => {
+            const schema = zodClockDuration.positive().min( '0:30' ).max( '1:00:00' ).in( TimeUnit.SECOND );
+
+            expect( schema.parse( '15:00' ) ).toBe( 900 );
+            expect( schema.safeParse( '0:10' ).success ).toBe( false );
+            expect( schema.safeParse( '1:00:01' ).success ).toBe( false );
+            expect( schema.withErrorMessages( { invalidFormatError: 'Use H:MM:SS' } ).safeParse( '1h' ).error?.issues[ 0 ]?.message ).toBe( 'Use H:MM:SS' );
+        } );
+
+        test( 'should encode clock durations', () => {
+            const codec = zodClockDuration.codec();
+
+            expect( z.encode( codec, 5400000 ) ).toBe( '1:30:00' );
+            expect( z.encode( codec, 3723500 ) ).toBe( '1:02:03.5' );
+            expect( z.encode( codec, 90061001 ) ).toBe( '25:01:01.001' );
+            expect( z.encode( codec, -1500 ) ).toBe( '-0:00:01.5' );
+            expect( z.encode( codec, 59999.9999 ) ).toBe( '0:01:00' );
+            expect( z.encode( zodClockDuration.codec( { precision: 0 } ), 1500 ) ).toBe( '0:00:02' );
+            expect( z.decode( codec, z.encode( codec, 3723500 ) ) ).toBe( 3723500 );
+        } );
+    } );
+
+    describe( 'time of day', () => {
+        test( 'should parse 24-hour times', () => {
+            expect( zodTimeOfDay.parse( '14:30' ) ).toBe( 52200000 );
+            expect( zodTimeOfDay.parse( '9:05' ) ).toBe( 32700000 );
+            expect( zodTimeOfDay.parse( '09:00:15' ) ).toBe( 32415000 );
+            expect( zodTimeOfDay.parse( '23:59:59.999' ) ).toBe( 86399999 );
+            expect( zodTimeOfDay.parse( '00:00' ) ).toBe( 0 );
+        } );
+
+        test( 'should parse 12-hour times', () => {
+            expect( zodTimeOfDay.parse( '2:30 pm' ) ).toBe( 52200000 );
+            expect( zodTimeOfDay.parse( '2pm' ) ).toBe( 50400000 );
+            expect( zodTimeOfDay.parse( ' 7:05 AM ' ) ).toBe( 25500000 );
+            expect( zodTimeOfDay.parse( '11:59:30 p.m.' ) ).toBe( 86370000 );
+            expect( zodTimeOfDay.parse( '12am' ) ).toBe( 0 );
+            expect( zodTimeOfDay.parse( '12:00 pm' ) ).toBe( 43200000 );
+        } );
+
+        test( 'should output the fields of the time', () => {
+            expect( zodTimeOfDay.parts().parse( '2:30 pm' ) ).toEqual( { hour: 14, minute: 30, second: 0 } );
+            expect( zodTimeOfDay.parts().parse( '09:00:15.5' ) ).toEqual( { hour: 9, minute: 0, second: 15.5 } );
+        } );
+
+        test( 'should reject fields beyond their range', () => {
+            for ( const input of [ '24:00', '9:60', '9:00:60', '13pm', '0am' ] ) {
+                const result = zodTimeOfDay.safeParse( input );
+                expect( result.error?.issues[ 0 ] ).toMatchObject( {
+                    message: `Invalid time of day: ${ input }`,
+                    params: { code: TimeStringIssueCode.INVALID_VALUE, segment: input, offset: 0 },
+                } );
+            }
+        } );
+
+        test( 'should reject malformed times', () => {
+            for ( const input of [ '', '9', '1:2', '14h30', '2:30 xm', '14:30 pm:00', '-1:00' ] ) {
+                expect( zodTimeOfDay.safeParse( input ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.INVALID_FORMAT } } );
+            }
+        } );
+
+        test( 'should use the time string error messages', () => {
+            const schema = zodTimeOfDay
+                .withErrorMessages( { invalidFormatError: 'Use HH:MM' } )
+                .withErrorMessages( { invalidValueError: ( value ) => `No such time: ${ value }` } );
+
+            expect( schema.safeParse( 'noon' ).error?.issues[ 0 ]?.message ).toBe( 'Use HH:MM' );
+            expect( schema.safeParse( '25:00' ).error?.issues[ 0 ]?.message ).toBe( 'No such time: 25:00' );
+        } );
+
+        test( 'should check a window within the day', () => {
+            const schema = zodTimeOfDay.after( '08:00' ).before( '6pm' );
+
+            expect( schema.parse( '08:00' ) ).toBe( 28800000 );
+            expect( schema.parse( '17:59:59' ) ).toBe( 64799000 );
+            expect( schema.safeParse( '07:59' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Time must be at or after 08:00',
+                params: { code: TimeStringIssueCode.TOO_EARLY, value: 28740000, minimum: 28800000 },
+            } );
+            expect( schema.safeParse( '18:00' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Time must be before 6pm',
+                params: { code: TimeStringIssueCode.TOO_LATE, value: 64800000, maximum: 64800000 },
+            } );
+        } );
+
+        test( 'should check windows that wrap past midnight', () => {
+            const schema = zodTimeOfDay.before( '06:00' ).after( '22:00' );
+
+            expect( schema.parse( '22:00' ) ).toBe( 79200000 );
+            expect( schema.parse( '23:30' ) ).toBe( 84600000 );
+            expect( schema.parse( '00:00' ) ).toBe( 0 );
+            expect( schema.parse( '5:59 am' ) ).toBe( 21540000 );
+            expect( schema.safeParse( '06:00' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Time must be at or after 22:00 or before 06:00',
+                params: { code: TimeStringIssueCode.OUTSIDE_WINDOW, minimum: 79200000, maximum: 21600000 },
+            } );
+            expect( schema.safeParse( '12:00' ).success ).toBe( false );
+        } );
+
+        test( 'should support custom window messages', () => {
+            const schema = zodTimeOfDay
+                .after( '22:00', { message: ( time ) => `${ time } is outside quiet hours` } )
+                .before( '07:00', 'Too late' );
+
+            expect( schema.safeParse( '12:00' ).error?.issues[ 0 ]?.message ).toBe( '12:00 is outside quiet hours' );
+            expect( zodTimeOfDay.before( '07:00', 'Too late' ).safeParse( '08:00' ).error?.issues[ 0 ]?.message ).toBe( 'Too late' );
+        } );
+
+        test( 'should accept bounds in milliseconds since midnight', () => {
+            const schema = zodTimeOfDay.after( 8 * 3600000 );
+
+            expect( schema.safeParse( '07:00' ).error?.issues[ 0 ]?.message ).toBe( 'Time must be at or after 8:00:00' );
+            expect( () => zodTimeOfDay.after( 86400000 ) ).toThrow();
+            expect( () => zodTimeOfDay.before( -1 ) ).toThrow();
+            expect( () => zodTimeOfDay.before( 'noon' ) ).toThrow( 'Invalid time of day bound: "noon"' );
+        } );
+
+        test( 'should keep bounds and messages in any order', () => {
+            const before = zodTimeOfDay.after( '08:00' ).withErrorMessages( { invalidFormatError: 'Use HH:MM' } ).parts();
+            const after = zodTimeOfDay.withErrorMessages( { invalidFormatError: 'Use HH:MM' } ).parts().after( '08:00' );
+
+            for ( const schema of [ before, after ] ) {
+                expect( schema.parse( '9am' ) ).toEqual( { hour: 9, minute: 0, second: 0 } );
+                expect( schema.safeParse( '7am' ).success ).toBe( false );
+                expect( schema.safeParse( 'noon' ).error?.issues[ 0 ]?.message ).toBe( 'Use HH:MM' );
+            }
+        } );
+    } );
+
+    describe( 'ranges', () => {
+        test( 'should parse ranges with each separator', () => {
+            const schema = zodTimeString.range();
+
+            expect( schema.parse( '5m-10m' ) ).toEqual( { min: 300000, max: 600000 } );
+            expect( schema.parse( '1s..30s' ) ).toEqual( { min: 1000, max: 30000 } );
+            expect( schema.parse( '5m to 1h' ) ).toEqual( { min: 300000, max: 3600000 } );
+            expect( schema.parse( ' 5m - 10m ' ) ).toEqual( { min: 300000, max: 600000 } );
+            expect( schema.parse( '5 minutes TO 1 hour' ) ).toEqual( { min: 300000, max: 3600000 } );
+        } );
+
+        test( 'should reuse the single duration grammar for each end', () => {
+            const schema = zodTimeString.range();
+
+            expect( schema.parse( '1h 30m-2h' ) ).toEqual( { min: 5400000, max: 7200000 } );
+            expect( schema.parse( '-10m--5m' ) ).toEqual( { min: -600000, max: -300000 } );
+            expect( schema.parse( '5m-5m' ) ).toEqual( { min: 300000, max: 300000 } );
+            expect( zodIsoDuration.range().parse( 'PT1M..PT2M' ) ).toEqual( { min: 60000, max: 120000 } );
+            expect( zodClockDuration.range().parse( '1:00 to 1:30:00' ) ).toEqual( { min: 60000, max: 5400000 } );
+        } );
+
+        test( 'should output both ends in the output unit', () => {
+            expect( zodTimeString.in( TimeUnit.SECOND ).range().parse( '10s..1m' ) ).toEqual( { min: 10, max: 60 } );
+        } );
+
+        test( 'should reject a start greater than the end', () => {
+            const result = zodTimeString.range().safeParse( '10m-5m' );
+
+            expect( result.error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Range start 10m is greater than its end 5m',
+                params: { code: TimeStringIssueCode.INVALID_RANGE, minimum: 600000, maximum: 300000 },
+            } );
+            expect( zodTimeString.withErrorMessages( { invalidRangeError: ( range ) => `Reversed: ${ range }` } ).range().safeParse( '10m-5m' ).error?.issues[ 0 ]?.message ).toBe( 'Reversed: 10m-5m' );
+        } );
+
+        test( 'should report the failing end', () => {
+            const schema = zodTimeString.range();
+
+            expect( schema.safeParse( '5m-10x' ).error?.issues[ 0 ] ).toMatchObject( {
+                path: [ 'max' ],
+                params: { code: TimeStringIssueCode.INVALID_UNIT, segment: '10x', offset: 5, unit: 'x' },
+            } );
+            expect( schema.safeParse( '5q to 1h' ).error?.issues[ 0 ] ).toMatchObject( { path: [ 'min' ], params: { code: TimeStringIssueCode.INVALID_UNIT } } );
+            expect( schema.safeParse( '5m-' ).error?.issues[ 0 ] ).toMatchObject( { path: [ 'max' ], params: { code: TimeStringIssueCode.INVALID_FORMAT } } );
+        } );
+
+        test( 'should reject input without a separator', () => {
+            const result = zodTimeString.range().safeParse( '5m' );
+
+            expect( result.error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Invalid time range: 5m',
+                params: { code: TimeStringIssueCode.INVALID_FORMAT, segment: '5m' },
+            } );
+        } );
+
+        test( 'should apply chained checks to each end', () => {
+            const before = zodTimeString.positive().max( '30m' ).range();
+            const after = zodTimeString.range().positive().max( '30m' );
+
+            for ( const schema of [ before, after ] ) {
+                expect( schema.parse( '1m-30m' ) ).toEqual( { min: 60000, max: 1800000 } );
+                expect( schema.safeParse( '5m-1h' ).error?.issues[ 0 ] ).toMatchObject( { path: [ 'max' ], params: { code: TimeStringIssueCode.TOO_BIG } } );
+                expect( schema.safeParse( '-5m-1m' ).error?.issues[ 0 ] ).toMatchObject( { path: [ 'min' ], params: { code: TimeStringIssueCode.NOT_POSITIVE } } );
+            }
+        } );
+
+        test( 'should report both ends when both fail', () => {
+            const issues = zodTimeString.max( '1m' ).range().safeParse( '2m-3m' ).error?.issues;
+
+            expect( issues?.map( ( issue ) => issue.path ) ).toEqual( [ [ 'min' ], [ 'max' ] ] );
+        } );
+
+        test( 'should split long input with many separators', () => {
+            expect( zodTimeString.range().safeParse( '1m-'.repeat( 20000 ) ).error?.issues[ 0 ] ).toMatchObject( {
+                path: [ 'max' ],
+                params: { code: TimeStringIssueCode.INVALID_FORMAT, segment: '-1m', offset: 5 },
+            } );
+            expect( zodTimeString.range().safeParse( '1m'.repeat( 15000 ) + '-'.repeat( 15000 ) ).success ).toBe( false );
+            expect( zodClockDuration.range().safeParse( '1:00-'.repeat( 12000 ) ).success ).toBe( false );
+            expect( zodTimeString.range().parse( `${ '1m '.repeat( 10000 ) }- 30d` ) ).toEqual( { min: 600000000, max: 2592000000 } );
+        } );
+    } );
+
+    describe( 'relative times', () => {
+        const clock = new Date( '2024-01-31T12:00:00.000Z' );
+        const at = ( iso: string ) => new Date( iso );
+
+        test( 'should resolve relative expressions against the clock', () => {
+            const schema = zodTimeString.fromNow( { clock } );
+
+            expect( schema.parse( 'now' ) ).toEqual( clock );
+            expect( schema.parse( 'now+2h' ) ).toEqual( at( '2024-01-31T14:00:00.000Z' ) );
+            expect( schema.parse( 'NOW - 1d' ) ).toEqual( at( '2024-01-30T12:00:00.000Z' ) );
+            expect( schema.parse( 'in 5 minutes' ) ).toEqual( at( '2024-01-31T12:05:00.000Z' ) );
+            expect( schema.parse( '5m ago' ) ).toEqual( at( '2024-01-31T11:55:00.000Z' ) );
+            expect( schema.parse( '1 hour 30 minutes ago' ) ).toEqual( at( '2024-01-31T10:30:00.000Z' ) );
+            expect( schema.parse( ' in 1h ' ) ).toEqual( at( '2024-01-31T13:00:00.000Z' ) );
+        } );
+
+        test( 'should count months on the calendar from the clock', () => {
+            const schema = zodTimeString.fromNow( { clock } );
+
+            expect( schema.parse( 'in 1mo' ) ).toEqual( at( '2024-02-29T12:00:00.000Z' ) );
+            expect( schema.parse( '1y ago' ) ).toEqual( at( '2023-01-31T12:00:00.000Z' ) );
+        } );
+
+        test( 'should output epoch milliseconds', () => {
+            const schema = zodTimeString.fromNow( { clock: clock.getTime(), output: 'ms' } );
+
+            expect( schema.parse( 'in 1s' ) ).toBe( clock.getTime() + 1000 );
+        } );
+
+        test( 'should read the clock on every parse', () => {
+            let now = 0;
+            const schema = zodTimeString.fromNow( { clock: () => now, output: 'ms' } );
+
+            expect( schema.parse( 'in 1m' ) ).toBe( 60000 );
+            now = 1000;
+            expect( schema.parse( 'in 1m' ) ).toBe( 61000 );
+        } );
+
+        test( 'should default to the system clock', () => {
+            const before = Date.now();
+            const result = zodTimeString.fromNow( { output: 'ms' } ).parse( 'in 1h' );
+
+            expect( result ).toBeGreaterThanOrEqual( before + 3600000 );
+            expect( result ).toBeLessThanOrEqual( Date.now() + 3600000 );
+        } );
+
+        test( 'should reject plain durations and unknown forms', () => {
+            const schema = zodTimeString.fromNow( { clock } );
+
+            for ( const input of [ '5m', 'tomorrow', 'now+', 'ago', 'in' ] ) {
+                expect( schema.safeParse( input ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.INVALID_FORMAT } } );
+            }
+            expect( schema.safeParse( 'in 5x' ).error?.issues[ 0 ] ).toMatchObject( {
+                params: { code: TimeStringIssueCode.INVALID_UNIT, segment: '5x', offset: 4, unit: 'x' },
+            } );
+            expect( () => zodTimeString.fromNow( { clock: new Date( NaN ) } ) ).toThrow( 'Invalid anchor date' );
+        } );
+
+        test( 'should check that times are in the future or the past', () => {
+            const future = zodTimeString.fromNow( { clock } ).future();
+            const past = zodTimeString.fromNow( { clock } ).past( 'Must be earlier' );
+
+            expect( future.parse( 'in 1s' ) ).toEqual( at( '2024-01-31T12:00:01.000Z' ) );
+            expect( future.safeParse( 'now' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Time must be in the future',
+                params: { code: TimeStringIssueCode.NOT_FUTURE, value: 0 },
+            } );
+            expect( past.parse( '1s ago' ) ).toEqual( at( '2024-01-31T11:59:59.000Z' ) );
+            expect( past.safeParse( 'in 1s' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Must be earlier',
+                params: { code: TimeStringIssueCode.NOT_PAST, value: 1000 },
+            } );
+        } );
+
+        test( 'should apply chained checks to the offset', () => {
+            const before = zodTimeString.max( '1d' ).units( [ TimeUnit.MINUTE, TimeUnit.HOUR, TimeUnit.DAY ] ).fromNow( { clock } ).future();
+            const after = zodTimeString.units( [ TimeUnit.MINUTE, TimeUnit.HOUR, TimeUnit.DAY ] ).fromNow( { clock } ).future().max( '1d' );
+
+            for ( const schema of [ before, after ] ) {
+                expect( schema.parse( 'in 1d' ) ).toEqual( at( '2024-02-01T12:00:00.000Z' ) );
+                expect( schema.safeParse( 'in 2d' ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.TOO_BIG, maximum: 86400000 } } );
+                expect( schema.safeParse( 'in 30s' ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.UNIT_NOT_ALLOWED } } );
+                expect( schema.safeParse( '5m ago' ).success ).toBe( false );
+            }
+        } );
+    } );
+
+    describe( 'locales', () => {
+        test( 'should parse German unit names, comma decimals and conjunctions', () => {
+            const schema = createTimeString( { locale: 'de' } );
+
+            expect( schema.parse( '5 Minuten' ) ).toBe( 300000 );
+            expect( schema.parse( '1,5 h' ) ).toBe( 5400000 );
+            expect( schema.parse( '1 Stunde und 30 Minuten' ) ).toBe( 5400000 );
+            expect( schema.parse( '2 Tage, 3 Std' ) ).toBe( 183600000 );
+            expect( schema.parse( '1h,30m' ) ).toBe( 5400000 );
+        } );
+
+        test( 'should parse French, Korean and Japanese unit names', () => {
+            expect( createTimeString( { locale: 'fr' } ).parse( '1 heure et 30 minutes' ) ).toBe( 5400000 );
+            expect( createTimeString( { locale: 'fr' } ).parse( '1,5j' ) ).toBe( 129600000 );
+            expect( createTimeString( { locale: 'ko' } ).parse( '10분' ) ).toBe( 600000 );
+            expect( createTimeString( { locale: 'ko' } ).parse( '1시간 30분' ) ).toBe( 5400000 );
+            expect( createTimeString( { locale: 'ja' } ).parse( '1時間30分' ) ).toBe( 5400000 );
+            expect( createTimeString( { locale: 'ja' } ).parse( '250ミリ秒' ) ).toBe( 250 );
+        } );
+
+        test( 'should keep English spellings and dot decimals', () => {
+            const schema = createTimeString( { locale: 'de' } );
+
+            expect( schema.parse( '5 minutes' ) ).toBe( 300000 );
+            expect( schema.parse( '1.5h' ) ).toBe( 5400000 );
+            expect( schema.parse( '1h and 30m' ) ).toBe( 5400000 );
+        } );
+
+        test( 'should not change the default schema', () => {
+            expect( zodTimeString.safeParse( '5 Minuten' ).success ).toBe( false );
+            expect( zodTimeString.safeParse( '1,5h' ).success ).toBe( false );
+            expect( zodTimeString.safeParse( '1h und 30m' ).success ).toBe( false );
+        } );
+
+        test( 'should combine several locales', () => {
+            const schema = createTimeString( { locale: [ 'de', 'fr', 'ko', 'ja' ] } );
+
+            expect( schema.parse( '5 Jahre' ) ).toBe( 157680000000 );
+            expect( schema.parse( '3 années' ) ).toBe( 94608000000 );
+            expect( schema.parse( '2개월' ) ).toBe( 5184000000 );
+            expect( schema.parse( '2ヶ月' ) ).toBe( 5184000000 );
+            expect( schema.safeParse( 'abc' ).error?.issues[ 0 ]?.message ).toBe( 'Ungültiges Zeitformat: abc' );
+            expect( createTimeString( { locale: [ 'fr', 'de' ] } ).safeParse( 'abc' ).error?.issues[ 0 ]?.message ).toBe( 'Format de durée invalide : abc' );
+        } );
+
+        test( 'should use the default messages of the locale', () => {
+            const schema = createTimeString( { locale: 'de' } );
+
+            expect( schema.safeParse( '5 Minutne' ).error?.issues[ 0 ]?.message ).toBe( "Unbekannte Einheit 'Minutne'; meinten Sie 'minuten'?" );
+            expect( schema.min( '1m' ).safeParse( '30s' ).error?.issues[ 0 ]?.message ).toBe( 'Wert muss mindestens 1m sein' );
+            expect( schema.units( [ TimeUnit.SECOND ] ).safeParse( '1h' ).error?.issues[ 0 ]?.message ).toBe( "Zeiteinheit 'h' ist nicht erlaubt; erlaubt sind: s" );
+            expect( schema.range().safeParse( '10m-5m' ).error?.issues[ 0 ]?.message ).toBe( 'Der Anfang des Bereichs ist größer als sein Ende: 10m-5m' );
+            expect( createTimeString( { locale: 'ko' } ).positive().safeParse( '-1분' ).error?.issues[ 0 ]?.message ).toBe( '값은 양수여야 합니다' );
+            expect( createTimeString( { locale: 'ja' } ).fromNow( { clock: 0 } ).future().safeParse( '1分 ago' ).error?.issues[ 0 ]?.message ).toBe( '未来の時刻である必要があります' );
+        } );
+
+        test( 'should prefer configured messages over the locale', () => {
+            const schema = createTimeString( { locale: 'de', invalidFormatError: 'Bad format' } );
+
+            expect( schema.safeParse( 'abc' ).error?.issues[ 0 ]?.message ).toBe( 'Bad format' );
+            expect( schema.max( '1m', 'Too long' ).safeParse( '2m' ).error?.issues[ 0 ]?.message ).toBe( 'Too long' );
+        } );
+
+        test( 'should accept custom locale packs', () => {
+            const schema = createTimeString( {
+                locale: [
+                    {
+                        units: { [ TimeUnit.SECOND ]: [ 'sekund', 'sekunder' ], [ TimeUnit.MINUTE ]: [ 'minut', 'minutter' ] },
+                        decimalSeparator: ',',
+                        conjunctions: [ 'og' ],
+                        messages: { [ TimeStringIssueCode.TOO_BIG ]: ( { bound, input } ) => `${ input } er over ${ bound }` },
+                    },
+                    'de',
+                ],
+            } );
+
+            expect( schema.parse( '2 minutter og 1,5 sekunder' ) ).toBe( 121500 );
+            expect( schema.max( '1m' ).safeParse( '2 minutter' ).error?.issues[ 0 ]?.message ).toBe( '2 minutter er over 1m' );
+            expect( schema.safeParse( 'abc' ).error?.issues[ 0 ]?.message ).toBe( 'Ungültiges Zeitformat: abc' );
+        } );
+
+        test( 'should reject unknown locales', () => {
+            expect( () => createTimeString( { locale: 'xx' as 'de' } ) ).toThrow( 'Unknown locale "xx"' );
+        } );
+
+        test( 'should export the built-in packs', () => {
+            expect( Object.keys( TIME_STRING_LOCALES ) ).toEqual( [ 'de', 'fr', 'ko', 'ja' ] );
+        } );
+    } );
+
+    describe( 'JSON Schema', () => {
+        type EmittedSchema = {
+            pattern: string;
+            description: string;
+            examples: unknown[];
+            properties: Record<string, unknown>;
+            anyOf: { type: string; pattern?: string }[];
+        } & Record<string, unknown>;
+        const inputOf = ( schema: z.ZodType ) => z.toJSONSchema( schema, { io: 'input' } ) as EmittedSchema;
+        const outputOf = ( schema: z.ZodType ) => z.toJSONSchema( schema ) as EmittedSchema;
+
+        test( 'should describe the accepted text with a pattern', () => {
+            const json = inputOf( zodTimeString );
+            const pattern = new RegExp( json.pattern );
+
+            expect( json.type ).toBe( 'string' );
+            expect( json.description ).toBe( 'Duration written as one or more numbers with units (ms, s, m, h, d, w, mo, y); a bare number is read as milliseconds' );
+            for ( const valid of [ '1h 30m', ' 1H30M ', '-2 days, and 3h', '250', '1.5h' ] ) {
+                expect( pattern.test( valid ) ).toBe( true );
+            }
+            for ( const invalid of [ 'abc', '1h and', '3 fortnights', '1h 30' ] ) {
+                expect( pattern.test( invalid ) ).toBe( false );
+            }
+        } );
+
+        test( 'should narrow the pattern to the active units', () => {
+            const json = inputOf( zodTimeString.strict().units( [ TimeUnit.HOUR, TimeUnit.MINUTE ] ) );
+            const pattern = new RegExp( json.pattern );
+
+            expect( pattern.test( '1h 30m' ) ).toBe( true );
+            expect( pattern.test( '90s' ) ).toBe( false );
+            expect( pattern.test( '90' ) ).toBe( false );
+            expect( json.description ).toBe( 'Duration written as one or more numbers with units (h, m)' );
+            expect( json.examples ).toEqual( [ '1h 30m', '1h', '1m' ] );
+        } );
+
+        test( 'should follow custom units and locales', () => {
+            const custom = new RegExp( inputOf( createTimeString( { units: { fortnight: { ms: 14 * 86400000, aliases: [ 'fortnight', 'fortnights' ] } } } ) ).pattern );
+            const german = new RegExp( inputOf( createTimeString( { locale: 'de' } ) ).pattern );
+
+            expect( custom.test( '3 fortnights' ) ).toBe( true );
+            expect( german.test( '1,5 Stunden und 3 Minuten' ) ).toBe( true );
+        } );
+
+        test( 'should list only examples the schema accepts', () => {
+            expect( inputOf( zodTimeString ).examples ).toEqual( [ '1h 30m', '90s', '2 days' ] );
+            expect( inputOf( zodTimeString.max( '1m' ) ).examples ).toEqual( [ '500ms' ] );
+            expect( outputOf( zodTimeString.in( TimeUnit.SECOND ) ).examples ).toEqual( [ 5400, 90, 172800 ] );
+        } );
+
+        test( 'should carry the check limits in both modes', () => {
+            const schema = zodTimeString.positive().min( '30s' ).max( '1h' ).max( '2h' ).in( TimeUnit.SECOND );
+
+            expect( inputOf( schema ) ).toMatchObject( {
+                'x-exclusive-minimum-ms': 0,
+                'x-minimum-ms': 30000,
+                'x-maximum-ms': 3600000,
+            } );
+            expect( outputOf( schema ) ).toMatchObject( {
+                type: 'integer',
+                description: 'Duration in seconds',
+                exclusiveMinimum: 0,
+                minimum: 30,
+                maximum: 3600,
+                'x-minimum-ms': 30000,
+                'x-maximum-ms': 3600000,
+            } );
+            expect( outputOf( zodTimeString.negative().rounding( 'none' ) ) ).toMatchObject( { type: 'number', exclusiveMaximum: 0 } );
+        } );
+
+        test( 'should describe numeric input', () => {
+            const json = inputOf( zodTimeString.acceptNumbers( TimeUnit.SECOND ) );
+
+            expect( json.anyOf.map( ( option ) => option.type ) ).toEqual( [ 'string', 'number' ] );
+            expect( json.description ).toMatch( /a JSON number is read as seconds$/ );
+        } );
+
+        test( 'should describe the other grammars', () => {
+            const iso = new RegExp( inputOf( zodIsoDuration ).pattern );
+            const clock = new RegExp( inputOf( zodClockDuration ).pattern );
+            const relative = new RegExp( inputOf( zodTimeString.fromNow() ).pattern );
+            const range = new RegExp( inputOf( zodTimeString.range() ).pattern );
+
+            expect( [ 'PT1H30M', 'p2w', '-P1D' ].every( ( value ) => iso.test( value ) ) ).toBe( true );
+            expect( [ 'P', 'PT', '1h' ].some( ( value ) => iso.test( value ) ) ).toBe( false );
+            expect( [ '1:30:00', '90:00', '2:04:00:00' ].every( ( value ) => clock.test( value ) ) ).toBe( true );
+            expect( [ '1:60:00', '2:24:00:00', '1h' ].some( ( value ) => clock.test( value ) ) ).toBe( false );
+            expect( [ 'now', 'now - 1d', 'in 5 minutes', '5m ago' ].every( ( value ) => relative.test( value ) ) ).toBe( true );
+            expect( relative.test( '5m' ) ).toBe( false );
+            expect( [ '1s..5s', '1m - 2m', '1h TO 2h' ].every( ( value ) => range.test( value ) ) ).toBe( true );
+            expect( inputOf( zodTimeString.range() ).examples ).toEqual( [ '1h 30m to 2 days', '90s to 1h 30m', '90s to 2 days' ] );
+        } );
+
+        test( 'should describe each kind of output', () => {
+            expect( outputOf( zodTimeString.bigint() ) ).toMatchObject( { type: 'integer', examples: [ 5400000, 90000, 172800000 ] } );
+            expect( outputOf( zodTimeString.fromNow() ) ).toMatchObject( { type: 'string', format: 'date-time' } );
+            expect( outputOf( zodTimeString.fromNow( { output: 'ms' } ) ) ).toMatchObject( { type: 'integer' } );
+            expect( outputOf( zodTimeString.detailed() ).properties.value ).toMatchObject( { type: 'integer' } );
+            expect( outputOf( zodTimeString.range().max( '1h' ) ) ).toMatchObject( {
+                type: 'object',
+                properties: { min: { maximum: 3600000 }, max: { maximum: 3600000 } },
+                required: [ 'min', 'max' ],
+            } );
+        } );
+
+        test( 'should describe codecs like their decoder', () => {
+            const codec = zodTimeString.max( '1h' ).in( TimeUnit.SECOND ).codec();
+            const json = inputOf( codec );
+
+            expect( json ).toMatchObject( { type: 'string', examples: [ '90s', '500ms' ], 'x-maximum-ms': 3600000 } );
+            expect( new RegExp( json.pattern ).test( '1h 30m' ) ).toBe( true );
+            expect( outputOf( codec ) ).toMatchObject( { type: 'integer', maximum: 3600, examples: [ 90, 0 ], 'x-maximum-ms': 3600000 } );
+            expect( inputOf( zodTimeString.acceptNumbers().codec() ).type ).toBe( 'string' );
+        } );
+
+        test( 'should describe times of day', () => {
+            const json = inputOf( zodTimeOfDay );
+            const pattern = new RegExp( json.pattern );
+
+            expect( json.examples ).toEqual( [ '09:00', '14:30', '6:15 pm' ] );
+            expect( [ '14:30', '9:05', '23:59:59.5', '2pm', '12:00 a.m.' ].every( ( value ) => pattern.test( value ) ) ).toBe( true );
+            expect( [ '24:00', '9:60', '13pm', '0am' ].some( ( value ) => pattern.test( value ) ) ).toBe( false );
+            expect( outputOf( zodTimeOfDay.after( '9:00' ).before( '17:00' ) ) ).toMatchObject( {
+                type: 'number',
+                minimum: 32400000,
+                exclusiveMaximum: 61200000,
+                examples: [ 32400000, 52200000 ],
+            } );
+            expect( outputOf( zodTimeOfDay.after( '22:00' ).before( '6:00' ) ) ).toMatchObject( { minimum: 0, exclusiveMaximum: 86400000 } );
+            expect( outputOf( zodTimeOfDay.parts() ) ).toMatchObject( { type: 'object', required: [ 'hour', 'minute', 'second' ] } );
+        } );
+
+        test( 'should work inside other schemas and keep metadata', () => {
+            const json = inputOf( z.object( { timeout: zodTimeString.describe( 'Request timeout' ) } ) );
+
+            expect( json.properties.timeout ).toMatchObject( { type: 'string', description: 'Request timeout' } );
+        } );
+    } );
+
+    describe( 'step constraints', () => {
+        test( 'should require a whole number of steps', () => {
+            const schema = zodTimeString.multipleOf( '15m' );
+
+            expect( schema.parse( '30m' ) ).toBe( 1800000 );
+            expect( schema.parse( '0s' ) ).toBe( 0 );
+            expect( schema.parse( '-1h' ) ).toBe( -3600000 );
+            expect( schema.safeParse( '20m' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Value must be a multiple of 15m',
+                params: { code: TimeStringIssueCode.NOT_MULTIPLE_OF, step: 900000, value: 1200000 },
+            } );
+        } );
+
+        test( 'should read numeric steps in the output unit', () => {
+            expect( zodTimeString.in( TimeUnit.SECOND ).multipleOf( 30 ).parse( '1m 30s' ) ).toBe( 90 );
+            expect( zodTimeString.in( TimeUnit.SECOND, 'none' ).multipleOf( '100ms' ).parse( '0.3s' ) ).toBe( 0.3 );
+            expect( zodTimeString.multipleOf( 1000 ).in( TimeUnit.SECOND, 'none' ).safeParse( '1.5s' ).success ).toBe( false );
+        } );
+
+        test( 'should require whole units with granularity()', () => {
+            const schema = zodTimeString.granularity( TimeUnit.SECOND );
+
+            expect( schema.parse( '2s' ) ).toBe( 2000 );
+            expect( schema.safeParse( '1500ms' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Value must be a whole number of seconds',
+                params: { code: TimeStringIssueCode.NOT_MULTIPLE_OF, step: 1000 },
+            } );
+        } );
+
+        test( 'should support custom error messages', () => {
+            expect( zodTimeString.multipleOf( '15m', 'Use 15-minute slots' ).safeParse( '20m' ).error?.issues[ 0 ]?.message ).toBe( 'Use 15-minute slots' );
+            expect( zodTimeString.granularity( TimeUnit.SECOND, { message: ( value ) => `${ value }ms is not whole seconds` } ).safeParse( '1500ms' ).error?.issues[ 0 ]?.message )
+                .toBe( '1500ms is not whole seconds' );
+            expect( createTimeString( { locale: 'de' } ).multipleOf( '15m' ).safeParse( '20m' ).error?.issues[ 0 ]?.message ).toBe( 'Wert muss ein Vielfaches von 15m sein' );
+        } );
+
+        test( 'should snap values to the nearest step', () => {
+            expect( zodTimeString.snap( '15m' ).parse( '20m' ) ).toBe( 900000 );
+            expect( zodTimeString.snap( '15m' ).parse( '23m' ) ).toBe( 1800000 );
+            expect( zodTimeString.snap( '15m', 'ceil' ).parse( '16m' ) ).toBe( 1800000 );
+            expect( zodTimeString.snap( '15m', 'floor' ).parse( '-1m' ) ).toBe( -900000 );
+            expect( zodTimeString.snap( '1s' ).in( TimeUnit.SECOND ).parse( '1.6s' ) ).toBe( 2 );
+            expect( zodTimeString.snap( '1s' ).detailed().parse( '1.6s' ) ).toMatchObject( { ms: 2000, value: 2000 } );
+        } );
+
+        test( 'should check snapped values', () => {
+            const schema = zodTimeString.max( '1h' ).multipleOf( '15m' ).snap( '15m' );
+
+            expect( schema.parse( '1h 5m' ) ).toBe( 3600000 );
+            expect( schema.safeParse( '1h 10m' ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.TOO_BIG, value: 4500000 } } );
+        } );
+
+        test( 'should throw for invalid steps', () => {
+            expect( () => zodTimeString.multipleOf( 0 ) ).toThrow( 'Invalid time step: "0" is not a positive duration' );
+            expect( () => zodTimeString.multipleOf( '-1s' ) ).toThrow( 'Invalid time step: "-1s" is not a positive duration' );
+            expect( () => zodTimeString.snap( Infinity ) ).toThrow( 'Invalid time step: "Infinity" is not a positive duration' );
+            expect( () => zodTimeString.granularity( 'fortnight' ) ).toThrow( 'Unknown granularity time unit "fortnight"' );
+        } );
+
+        test( 'should emit the step in JSON Schema', () => {
+            expect( z.toJSONSchema( zodTimeString.multipleOf( '15m' ).in( TimeUnit.MINUTE ) ) ).toMatchObject( {
+                multipleOf: 15,
+                'x-multiple-of-ms': 900000,
+            } );
+        } );
+    } );
+
+    describe( 'exclusive bounds and clamping', () => {
+        test( 'should exclude the bounds of gt() and lt()', () => {
+            const schema = zodTimeString.gt( '0s' ).lt( '1h' );
+
+            expect( schema.parse( '59m' ) ).toBe( 3540000 );
+            expect( schema.safeParse( '0s' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Value must be greater than 0s',
+                params: { code: TimeStringIssueCode.TOO_SMALL, minimum: 0, inclusive: false },
+            } );
+            expect( schema.safeParse( '1h' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Value must be less than 1h',
+                params: { code: TimeStringIssueCode.TOO_BIG, maximum: 3600000, inclusive: false },
+            } );
+        } );
+
+        test( 'should allow zero with nonnegative() and nonpositive()', () => {
+            expect( zodTimeString.nonnegative().parse( '0s' ) ).toBe( 0 );
+            expect( zodTimeString.nonpositive().parse( '0s' ) ).toBe( 0 );
+            expect( zodTimeString.nonnegative().safeParse( '-1s' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Value must not be negative',
+                params: { code: TimeStringIssueCode.TOO_SMALL, minimum: 0 },
+            } );
+            expect( zodTimeString.nonpositive().safeParse( '1s' ).error?.issues[ 0 ]?.message ).toBe( 'Value must not be positive' );
+        } );
+
+        test( 'should check both ends with between()', () => {
+            const schema = zodTimeString.between( '1s', '5m' );
+
+            expect( schema.parse( '1s' ) ).toBe( 1000 );
+            expect( schema.parse( '5m' ) ).toBe( 300000 );
+            expect( schema.safeParse( '0s' ).error?.issues[ 0 ] ).toMatchObject( {
+                message: 'Value must be between 1s and 5m',
+                params: { code: TimeStringIssueCode.TOO_SMALL, minimum: 1000, maximum: 300000 },
+            } );
+            expect( schema.safeParse( '6m' ).error?.issues[ 0 ] ).toMatchObject( { params: { code: TimeStringIssueCode.TOO_BIG } } );
+            expect( () => zodTimeString.between( '5m', '1s' ) ).toThrow( 'Invalid time bounds: 5m is greater than 1s' );
+        } );
+
+        test( 'should support custom error messages', () => {
+            expect( zodTimeString.gt( 0, 'Must be above zero' ).safeParse( '0s' ).error?.issues[ 0 ]?.message ).toBe( 'Must be above zero' );
+            expect( zodTimeString.lt( '1h', { message: ( value ) => `${ value } is too long` } ).safeParse( '2h' ).error?.issues[ 0 ]?.message ).toBe( '7200000 is too long' );
+            expect( zodTimeString.nonnegative( 'No negatives' ).safeParse( '-1s' ).error?.issues[ 0 ]?.message ).toBe( 'No negatives' );
+            expect( zodTimeString.nonpositive( 'No positives' ).safeParse( '1s' ).error?.issues[ 0 ]?.message ).toBe( 'No positives' );
+            expect( zodTimeString.between( '1s', '5m', 'Out of range' ).safeParse( '6m' ).error?.issues[ 0 ]?.message ).toBe( 'Out of range' );
+            expect( createTimeString( { locale: 'de' } ).gt( '1m' ).safeParse( '1m' ).error?.issues[ 0 ]?.message ).toBe( 'Wert muss größer als 1m sein' );
+        } );
+
+        test( 'should clamp values into the bounds', () => {
+            const schema = zodTimeString.clamp( '1s', '5m' );
+
+            expect( schema.parse( '10ms' ) ).toBe( 1000 );
+            expect( schema.parse( '1h' ) ).toBe( 300000 );
+            expect( schema.parse( '2m' ) ).toBe( 120000 );
+            expect( schema.in( TimeUnit.SECOND ).parse( '1h' ) ).toBe( 300 );
+            expect( zodTimeString.clamp( 0, Infinity ).parse( '-5s' ) ).toBe( 0 );
+            expect( zodTimeString.clamp( '1s', '5m' ).snap( '1m' ).parse( '10s' ) ).toBe( 1000 );
+            expect( () => zodTimeString.clamp( '5m', '1s' ) ).toThrow( 'Invalid time bounds: 5m is greater than 1s' );
+        } );
+
+        test( 'should emit exclusive bounds in JSON Schema', () => {
+            expect( z.toJSONSchema( zodTimeString.gt( '0s' ).lt( '1h' ) ) ).toMatchObject( {
+                exclusiveMinimum: 0,
+                exclusiveMaximum: 3600000,
+                'x-exclusive-maximum-ms': 3600000,
+            } );
+            expect( z.toJSONSchema( zodTimeString.between( '1s', '5m' ) ) ).toMatchObject( { minimum: 1000, maximum: 300000 } );
+        } );
+    } );
+} );